@@ -0,0 +1,91 @@
+import {
+  getHyperliquidRelay,
+  relayUpstreamAvailable,
+} from "@/lib/orderflow/hyperliquid-relay";
+
+// Server-Sent Events relay: GET /api/hyperliquid/trades?symbol=BTC streams
+// normalized `OrderEvent`s as `data:` lines, fed by one shared upstream
+// socket per symbol.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const SYMBOL_PATTERN = /^[A-Za-z0-9@:/_-]{1,32}$/;
+const KEEP_ALIVE_MS = 15_000;
+
+export function GET(request: Request) {
+  const symbol = new URL(request.url).searchParams.get("symbol") ?? "BTC";
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    return Response.json({ error: "invalid symbol" }, { status: 400 });
+  }
+  if (!relayUpstreamAvailable()) {
+    return Response.json(
+      {
+        error:
+          "relay upstream needs a global WebSocket (Node 22+); set HYPERLIQUID_RELAY_UPSTREAM=fake to run without one",
+      },
+      { status: 503 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the runtime
+        }
+      };
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      const subscription = getHyperliquidRelay()
+        .orders$(symbol)
+        .subscribe({
+          next: (order) => send(`data: ${JSON.stringify(order)}\n\n`),
+          error: (err) => {
+            console.error("hyperliquid relay upstream failed", err);
+            close();
+          },
+          complete: close,
+        });
+      const keepAlive = setInterval(
+        () => send(": keep-alive\n\n"),
+        KEEP_ALIVE_MS
+      );
+      cleanup = () => {
+        clearInterval(keepAlive);
+        subscription.unsubscribe();
+      };
+
+      send("retry: 3000\n\n");
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -1,21 +1,131 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import { FlowControls } from "@/components/orderflow/FlowControls";
 import { OrderFlowCanvas } from "@/components/orderflow/OrderFlowCanvas";
 import { StatsPanel } from "@/components/orderflow/StatsPanel";
-import { OrderflowStats } from "@/lib/orderflow/types";
+import { AccountPanel } from "@/components/orderflow/AccountPanel";
+import { LiveVenue, OrderflowStats, StreamMode } from "@/lib/orderflow/types";
+import { createBinanceSource } from "@/lib/orderflow/binance-source";
+import { getHyperliquidWebSocket } from "@/lib/orderflow/hyperliquid-websocket";
+import { useHyperliquidMarkets } from "@/lib/orderflow/useHyperliquidMarkets";
+import { useStoredSymbols } from "@/lib/orderflow/useStoredSymbols";
+import { DEFAULT_SYNTHETIC_SEED } from "@/lib/orderflow/useSyntheticOrderStream";
+import { SyntheticScenarioId } from "@/lib/orderflow/synthetic-scenarios";
+import {
+  FrameRecorder,
+  parseRecording,
+  RecordedFrame,
+} from "@/lib/orderflow/session-replay";
+import { parseTradeFile, TradeImport } from "@/lib/orderflow/trade-import";
+import { FeedReport } from "@/lib/orderflow/market-data-source";
+import { isWalletAddress } from "@/lib/orderflow/user-fills";
+import { useUserFills } from "@/lib/orderflow/useUserFills";
+import { useAccountState } from "@/lib/orderflow/useAccountState";
 import Link from "next/link";
 
 const demoBuyShare = 0.58;
+const defaultLookbacks = [10, 60, 300];
+const defaultSymbols = ["BTC"];
 
 export default function Home() {
   const [streaming, setStreaming] = useState(true);
-  const [windowSeconds, setWindowSeconds] = useState(45);
+  // Concurrent lookbacks (seconds); the selected one drives the ribbon and
+  // the slider resizes it.
+  const [lookbacks, setLookbacks] = useState(defaultLookbacks);
+  const [ribbonWindowIndex, setRibbonWindowIndex] = useState(1);
+  const [showSlowRibbon, setShowSlowRibbon] = useState(false);
+  const windowSeconds = lookbacks[ribbonWindowIndex];
+  const setWindowSeconds = (seconds: number) =>
+    setLookbacks((prev) =>
+      prev.map((value, index) => (index === ribbonWindowIndex ? seconds : value))
+    );
+  const slowestLookback = Math.max(...lookbacks);
+  const secondaryWindowSeconds =
+    showSlowRibbon && slowestLookback > windowSeconds ? slowestLookback : null;
   const [separationScale, setSeparationScale] = useState(5);
-  const [streamMode, setStreamMode] = useState<"synthetic" | "live">(
-    "synthetic"
+  const [streamMode, setStreamMode] = useState<StreamMode>("synthetic");
+  const [offloadToWorker, setOffloadToWorker] = useState(false);
+  const [syntheticScenario, setSyntheticScenario] =
+    useState<SyntheticScenarioId>("balanced");
+  const [syntheticSeed, setSyntheticSeed] = useState(DEFAULT_SYNTHETIC_SEED);
+  // Wall displays can default to the relay with NEXT_PUBLIC_HYPERLIQUID_TRANSPORT=relay.
+  const [liveVenue, setLiveVenue] = useState<LiveVenue>("hyperliquid");
+  const [symbols, setSymbols] = useStoredSymbols(defaultSymbols);
+  const [focusSymbol, setFocusSymbol] = useState<string | null>(null);
+  const updateSymbols = (next: string[]) => {
+    setSymbols(next);
+    if (focusSymbol && !next.includes(focusSymbol)) setFocusSymbol(null);
+  };
+  const viewFocus =
+    streamMode !== "synthetic" && symbols.length > 1 ? focusSymbol : null;
+  const {
+    markets,
+    mids,
+    error: marketsError,
+  } = useHyperliquidMarkets({ enabled: streamMode !== "synthetic" });
+  const binanceSource = useMemo(() => createBinanceSource(), []);
+  const [useRelay, setUseRelay] = useState(
+    process.env.NEXT_PUBLIC_HYPERLIQUID_TRANSPORT === "relay"
   );
+  const recorderRef = useRef<FrameRecorder | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [replayFrames, setReplayFrames] = useState<RecordedFrame[]>([]);
+  const [tradeImport, setTradeImport] = useState<TradeImport | null>(null);
+  const [feed, setFeed] = useState<FeedReport | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  // Fills only line up with the live Hyperliquid tape.
+  const [walletAddress, setWalletAddress] = useState("");
+  const watchedAddress =
+    streamMode === "live" &&
+    liveVenue === "hyperliquid" &&
+    isWalletAddress(walletAddress)
+      ? walletAddress.trim()
+      : null;
+  const ownFills = useUserFills({
+    address: watchedAddress,
+    symbols,
+    enabled: streaming,
+  });
+  const account = useAccountState({
+    address: watchedAddress,
+    enabled: streaming,
+  });
+
+  // Records what the main-thread client receives (not the worker's socket).
+  const toggleRecording = () => {
+    const recorder = (recorderRef.current ??= new FrameRecorder());
+    if (recorder.recording) {
+      recorder.stop();
+      recorder.download();
+      setRecording(false);
+    } else {
+      recorder.start(getHyperliquidWebSocket());
+      setRecording(true);
+    }
+  };
+
+  // A recorded session (raw frames) wins; anything else is read as a
+  // CSV/JSON trade export.
+  const loadReplayFile = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const frames = parseRecording(text);
+        if (frames.length > 0) {
+          setReplayFrames(frames);
+          setTradeImport(null);
+          return;
+        }
+        const imported = parseTradeFile(text);
+        if (imported.errors.length > 0) {
+          console.warn("trade import rejected rows", imported.errors);
+        }
+        setTradeImport(imported);
+        setReplayFrames([]);
+      })
+      .catch((err) => console.error("failed to read replay file", err));
+  };
   const [stats, setStats] = useState<OrderflowStats>({
     buyShare: demoBuyShare,
     sellShare: 1 - demoBuyShare,
@@ -60,9 +170,27 @@ export default function Home() {
                   label="Orderflow lookback:"
                   streaming={streaming}
                   streamMode={streamMode}
+                  source={
+                    streamMode === "live" && liveVenue === "binance"
+                      ? binanceSource
+                      : null
+                  }
+                  symbols={symbols}
+                  focusSymbol={viewFocus}
                   windowSeconds={windowSeconds}
+                  extraWindowsSeconds={lookbacks}
+                  secondaryWindowSeconds={secondaryWindowSeconds}
                   separationScale={separationScale}
+                  offloadToWorker={offloadToWorker}
+                  liveTransport={useRelay ? "relay" : "direct"}
+                  replayFrames={replayFrames}
+                  importedOrders={tradeImport?.orders}
+                  replaySpeed={replaySpeed}
+                  syntheticScenario={syntheticScenario}
+                  syntheticSeed={syntheticSeed}
+                  ownFills={ownFills.fills}
                   onStatsChange={(next) => setStats(next)}
+                  onFeedChange={setFeed}
                 />
               </div>
               <div className="flex w-full flex-col gap-3 md:flex-1 md:h-[420px] min-h-0">
@@ -74,17 +202,69 @@ export default function Home() {
                   sellVolume={stats.sellVolume}
                   buyCount={stats.buyCount}
                   sellCount={stats.sellCount}
+                  lateTrades={stats.lateTrades}
+                  droppedTrades={stats.droppedTrades}
+                  bySymbol={stats.bySymbol}
+                  feed={feed}
+                  ownFlow={watchedAddress ? stats.ownFlow : undefined}
+                  ownFills={watchedAddress ? ownFills.fills : undefined}
+                  ownFillsError={ownFills.error}
+                  windows={stats.windows}
                   className="flex-1 min-h-0 overflow-hidden"
                 />
+                {streamMode === "live" && liveVenue === "hyperliquid" && (
+                  <AccountPanel
+                    address={watchedAddress}
+                    coins={viewFocus ? [viewFocus] : symbols}
+                    state={account.state}
+                    openOrders={account.openOrders}
+                    error={account.error}
+                    buyShare={stats.buyShare}
+                    bySymbol={stats.bySymbol}
+                    className="shrink-0"
+                  />
+                )}
                 <FlowControls
                   streaming={streaming}
                   onToggleStreaming={() => setStreaming((s) => !s)}
                   windowSeconds={windowSeconds}
                   onWindowChange={setWindowSeconds}
+                  lookbackWindows={lookbacks}
+                  ribbonWindowIndex={ribbonWindowIndex}
+                  onRibbonWindowChange={setRibbonWindowIndex}
+                  showSlowRibbon={showSlowRibbon}
+                  onShowSlowRibbonChange={setShowSlowRibbon}
                   separationScale={separationScale}
                   onSeparationChange={setSeparationScale}
                   streamMode={streamMode}
                   onStreamModeChange={setStreamMode}
+                  offloadToWorker={offloadToWorker}
+                  onOffloadToWorkerChange={setOffloadToWorker}
+                  liveVenue={liveVenue}
+                  onLiveVenueChange={setLiveVenue}
+                  symbols={symbols}
+                  onSymbolsChange={updateSymbols}
+                  markets={markets}
+                  mids={mids}
+                  marketsError={marketsError}
+                  focusSymbol={focusSymbol}
+                  onFocusSymbolChange={setFocusSymbol}
+                  useRelay={useRelay}
+                  onUseRelayChange={setUseRelay}
+                  recording={recording}
+                  onToggleRecording={toggleRecording}
+                  replayFrameCount={replayFrames.length}
+                  importedTradeCount={tradeImport?.orders.length ?? 0}
+                  rejectedTradeCount={tradeImport?.rejected ?? 0}
+                  onReplayFileSelected={loadReplayFile}
+                  replaySpeed={replaySpeed}
+                  onReplaySpeedChange={setReplaySpeed}
+                  syntheticScenario={syntheticScenario}
+                  onSyntheticScenarioChange={setSyntheticScenario}
+                  syntheticSeed={syntheticSeed}
+                  onSyntheticSeedChange={setSyntheticSeed}
+                  walletAddress={walletAddress}
+                  onWalletAddressChange={setWalletAddress}
                   className="flex-1 min-h-0 overflow-auto"
                 />
               </div>
@@ -109,10 +289,10 @@ export default function Home() {
                   smaller screens.
                 </li>
                 <li>
-                  The lookback window maintains a time-ordered queue of trades;
-                  old trades are culled past the cutoff, totals recalc on window
-                  change, and EMA smooths the share so thickness and stats
-                  update gently.
+                  The lookback window sums trades into 100 ms time buckets;
+                  buckets past the cutoff are evicted, a window change only
+                  touches the buckets crossing the new cutoff, and EMA smooths
+                  the share so thickness and stats update gently.
                 </li>
                 <li>
                   Live mode subscribes to Hyperliquid trades (`trades` channel,
@@ -122,8 +302,8 @@ export default function Home() {
                   animates particles/log-scaled radii.
                 </li>
                 <li>
-                  Modes & controls: Synthetic (RxJS demo) vs Live trades;
-                  pause/resume; lookback slider drives the window + EMA; desktop
+                  Modes & controls: Synthetic (RxJS demo), Live trades, or
+                  Replay of a recorded session; pause/resume; lookback slider drives the window + EMA; desktop
                   separation slider sets the gap. Pills on-canvas show only %,
                   while the stats panel carries notional volume and trade
                   counts.
@@ -139,13 +319,14 @@ export default function Home() {
                   can briefly reflect a mix of both sources.
                 </li>
                 <li>
-                  Window mechanics: time-ordered queue with trade-id dedupe;
-                  lookback change triggers a full recalc (no historic backfill);
-                  EMA smooths share; window changes do not flush the queue.
+                  Window mechanics: time-bucketed totals with trade-id dedupe;
+                  lookback changes adjust totals incrementally; live mode
+                  backfills recent trades over REST on connect/reconnect; EMA
+                  smooths share; window changes do not flush history.
                 </li>
                 <li>
                   Live trade parsing: trades channel on `wss://api.hyperliquid.xyz/ws`
-                  (BTC), sides normalized (`b*` = buy, else sell), notional =
+                  (BTC by default, or any selected coins), sides normalized (`b*` = buy, else sell), notional =
                   size×price, deduped by id.
                 </li>
                 <li>
@@ -0,0 +1,153 @@
+"use client";
+
+import { WindowTotals } from "@/lib/orderflow/types";
+import {
+  ClearinghouseState,
+  OpenOrder,
+} from "@/lib/orderflow/hyperliquid-websocket";
+import {
+  FlowBias,
+  positionFlowBias,
+  positionFor,
+} from "@/lib/orderflow/account";
+import { buyShareOf } from "@/lib/orderflow/orderflow-aggregator";
+
+type AccountPanelProps = {
+  /** Watched wallet; `null` shows a prompt instead of positions. */
+  address: string | null;
+  /** Coins on screen; one row per coin the wallet holds. */
+  coins: readonly string[];
+  state: ClearinghouseState | null;
+  openOrders?: OpenOrder[] | null;
+  error?: string | null;
+  /** Smoothed ribbon buy share; used when a single coin is on screen. */
+  buyShare: number;
+  /** Per-coin window totals; used for each coin when several are shown. */
+  bySymbol?: Record<string, WindowTotals>;
+  className?: string;
+};
+
+const biasStyles: Record<FlowBias, string> = {
+  with: "border-emerald-300/40 bg-emerald-400/10",
+  against: "border-rose-300/50 bg-rose-500/15",
+  neutral: "border-white/10 bg-white/5",
+};
+
+const formatPct = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatPrice = (value: number | null) =>
+  value === null
+    ? "-"
+    : value.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+const formatUsd = (value: number) =>
+  value.toLocaleString(undefined, {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 2,
+  });
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const shareFor = (
+  coin: string,
+  coins: readonly string[],
+  buyShare: number,
+  bySymbol?: Record<string, WindowTotals>
+) => {
+  if (coins.length <= 1) return buyShare;
+  const totals = bySymbol?.[coin];
+  return totals ? buyShareOf(totals) : 0.5;
+};
+
+export function AccountPanel({
+  address,
+  coins,
+  state,
+  openOrders,
+  error,
+  buyShare,
+  bySymbol,
+  className,
+}: AccountPanelProps) {
+  const positions = coins.flatMap((coin) => {
+    const position = positionFor(state, coin);
+    return position ? [position] : [];
+  });
+  const viewed = new Set(coins);
+  const orderCount =
+    openOrders?.filter((order) => viewed.has(order.coin)).length ?? null;
+
+  return (
+    <div
+      className={`flex flex-col gap-2 rounded-2xl border border-white/10 bg-slate-950/80 p-4 text-xs text-white/80 shadow-lg ${
+        className ?? ""
+      }`}
+    >
+      <div className="flex items-center justify-between text-[11px] uppercase tracking-[0.2em] text-white/50">
+        <span>Account</span>
+        {address && state && (
+          <span className="normal-case tracking-normal">
+            {shortAddress(address)} • {formatUsd(state.marginSummary.accountValue)}
+          </span>
+        )}
+      </div>
+      {!address ? (
+        <div className="text-white/50">
+          Enter a wallet address to see its position next to the flow.
+        </div>
+      ) : error ? (
+        <div className="text-rose-200">Account feed: {error}</div>
+      ) : !state ? (
+        <div className="text-white/50">Waiting for account data…</div>
+      ) : positions.length === 0 ? (
+        <div className="text-white/50">
+          No open position in {coins.join(", ") || "the selected coins"}
+          {orderCount ? ` • ${orderCount} open orders` : ""}
+        </div>
+      ) : (
+        positions.map((position) => {
+          const share = shareFor(position.coin, coins, buyShare, bySymbol);
+          const bias = positionFlowBias(position, share);
+          const long = position.size > 0;
+          return (
+            <div
+              key={position.coin}
+              className={`flex flex-col gap-1 rounded-xl border p-3 ${biasStyles[bias]}`}
+            >
+              <div className="flex justify-between gap-2 font-semibold text-white/90">
+                <span>
+                  {long ? "Long" : "Short"} {Math.abs(position.size)}{" "}
+                  {position.coin}
+                </span>
+                <span
+                  className={
+                    position.unrealizedPnl >= 0
+                      ? "text-emerald-300"
+                      : "text-rose-300"
+                  }
+                >
+                  {formatUsd(position.unrealizedPnl)}
+                </span>
+              </div>
+              <div className="flex justify-between gap-2">
+                <span>Entry {formatPrice(position.entryPx)}</span>
+                <span>
+                  {position.leverage.value}× {position.leverage.type}
+                </span>
+                <span>Liq {formatPrice(position.liquidationPx)}</span>
+              </div>
+              <div className="text-white/60">
+                {bias === "neutral"
+                  ? `Flow balanced (${formatPct(share)} buys)`
+                  : `${share > 0.5 ? "Buy" : "Sell"} aggression dominates (${formatPct(
+                      share
+                    )} buys) — ${bias === "with" ? "with" : "against"} your ${
+                      long ? "long" : "short"
+                    }`}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
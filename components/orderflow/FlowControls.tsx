@@ -1,15 +1,85 @@
 "use client";
 
+import { LiveVenue, StreamMode } from "@/lib/orderflow/types";
+import {
+  HyperliquidMarket,
+  MidsMap,
+} from "@/lib/orderflow/hyperliquid-websocket";
+import {
+  SyntheticScenarioId,
+  syntheticScenarios,
+} from "@/lib/orderflow/synthetic-scenarios";
+import { isWalletAddress } from "@/lib/orderflow/user-fills";
+import {
+  formatLookback,
+  MAX_LOOKBACK_MS,
+} from "@/lib/orderflow/orderflow-aggregator";
+import { SymbolPicker } from "./SymbolPicker";
+
+const modeLabels: Record<StreamMode, string> = {
+  synthetic: "Synthetic",
+  live: "Live",
+  replay: "Replay",
+};
+const venueLabels: Record<LiveVenue, string> = {
+  hyperliquid: "Hyperliquid",
+  binance: "Binance",
+};
+const replaySpeeds = [0.5, 1, 2, 5, 10, 20];
+// Offered until exchange metadata arrives (or when it is unavailable).
+const fallbackMarkets: HyperliquidMarket[] = ["BTC", "ETH", "SOL"].map(
+  (coin) => ({ coin, label: coin, kind: "perp", szDecimals: null })
+);
+
 type FlowControlsProps = {
   streaming: boolean;
   onToggleStreaming: () => void;
+  /** Length of the selected lookback; the slider edits it. */
   windowSeconds: number;
   onWindowChange: (value: number) => void;
+  /** Concurrent lookbacks, in seconds; the selected one drives the ribbon. */
+  lookbackWindows?: number[];
+  ribbonWindowIndex?: number;
+  onRibbonWindowChange?: (index: number) => void;
+  /** Outline the slowest lookback over the ribbon. */
+  showSlowRibbon?: boolean;
+  onShowSlowRibbonChange?: (value: boolean) => void;
   separationScale?: number;
   onSeparationChange?: (value: number) => void;
   className?: string;
-  streamMode?: "synthetic" | "live";
-  onStreamModeChange?: (mode: "synthetic" | "live") => void;
+  streamMode?: StreamMode;
+  onStreamModeChange?: (mode: StreamMode) => void;
+  liveVenue?: LiveVenue;
+  onLiveVenueChange?: (venue: LiveVenue) => void;
+  symbols?: string[];
+  onSymbolsChange?: (symbols: string[]) => void;
+  /** Searchable markets for the symbol picker, with live mids. */
+  markets?: HyperliquidMarket[];
+  mids?: MidsMap;
+  marketsError?: string | null;
+  /** `null` = combined view of every selected coin. */
+  focusSymbol?: string | null;
+  onFocusSymbolChange?: (symbol: string | null) => void;
+  offloadToWorker?: boolean;
+  onOffloadToWorkerChange?: (value: boolean) => void;
+  useRelay?: boolean;
+  onUseRelayChange?: (value: boolean) => void;
+  recording?: boolean;
+  onToggleRecording?: () => void;
+  replayFrameCount?: number;
+  /** Trades loaded from a CSV/JSON export, and rows that failed validation. */
+  importedTradeCount?: number;
+  rejectedTradeCount?: number;
+  onReplayFileSelected?: (file: File) => void;
+  replaySpeed?: number;
+  onReplaySpeedChange?: (value: number) => void;
+  syntheticScenario?: SyntheticScenarioId;
+  onSyntheticScenarioChange?: (scenario: SyntheticScenarioId) => void;
+  syntheticSeed?: number;
+  onSyntheticSeedChange?: (seed: number) => void;
+  /** Wallet whose fills are highlighted (read-only, live Hyperliquid). */
+  walletAddress?: string;
+  onWalletAddressChange?: (address: string) => void;
 };
 
 export function FlowControls({
@@ -17,12 +87,46 @@ export function FlowControls({
   onToggleStreaming,
   windowSeconds,
   onWindowChange,
+  lookbackWindows,
+  ribbonWindowIndex = 0,
+  onRibbonWindowChange,
+  showSlowRibbon = false,
+  onShowSlowRibbonChange,
   separationScale,
   onSeparationChange,
   className,
   streamMode = "synthetic",
   onStreamModeChange,
+  liveVenue = "hyperliquid",
+  onLiveVenueChange,
+  symbols = ["BTC"],
+  onSymbolsChange,
+  markets,
+  mids,
+  marketsError,
+  focusSymbol = null,
+  onFocusSymbolChange,
+  offloadToWorker = false,
+  onOffloadToWorkerChange,
+  useRelay = false,
+  onUseRelayChange,
+  recording = false,
+  onToggleRecording,
+  replayFrameCount = 0,
+  importedTradeCount = 0,
+  rejectedTradeCount = 0,
+  onReplayFileSelected,
+  replaySpeed = 1,
+  onReplaySpeedChange,
+  syntheticScenario = "balanced",
+  onSyntheticScenarioChange,
+  syntheticSeed,
+  onSyntheticSeedChange,
+  walletAddress = "",
+  onWalletAddressChange,
 }: FlowControlsProps) {
+  const walletInvalid =
+    walletAddress.trim() !== "" && !isWalletAddress(walletAddress);
   return (
     <div
       className={`flex flex-col gap-4 rounded-2xl border border-white/10 bg-slate-950/80 p-4 text-sm shadow-lg ${
@@ -36,7 +140,7 @@ export function FlowControls({
           </p> */}
           {/*           <p className="text-white/90">Order ingestion</p> */}
           <div className="flex rounded-full border border-white/10 bg-white/5 p-[3px] text-xs font-semibold text-white/80">
-            {(["synthetic", "live"] as const).map((mode) => (
+            {(["synthetic", "live", "replay"] as const).map((mode) => (
               <button
                 key={mode}
                 type="button"
@@ -47,7 +151,7 @@ export function FlowControls({
                     : "bg-transparent text-white/70 hover:bg-white/10"
                 }`}
               >
-                {mode === "synthetic" ? "Synthetic" : "Live BTC (HL)"}
+                {modeLabels[mode]}
               </button>
             ))}
           </div>
@@ -61,20 +165,235 @@ export function FlowControls({
         </button>
       </div>
 
+      {streamMode === "synthetic" && (
+        <div className="flex items-center justify-between gap-2 text-xs text-white/70">
+          <select
+            value={syntheticScenario}
+            onChange={(e) =>
+              onSyntheticScenarioChange?.(e.target.value as SyntheticScenarioId)
+            }
+            aria-label="Scenario"
+            className="rounded-full bg-white/10 px-2 py-1 text-white"
+          >
+            {Object.values(syntheticScenarios).map((scenario) => (
+              <option key={scenario.id} value={scenario.id}>
+                {scenario.label}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2">
+            <span>Seed</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={syntheticSeed ?? ""}
+              onChange={(e) => {
+                const seed = Number.parseInt(e.target.value, 10);
+                if (Number.isFinite(seed)) onSyntheticSeedChange?.(seed);
+              }}
+              className="w-20 rounded-full bg-white/10 px-2 py-1 text-white"
+            />
+          </label>
+        </div>
+      )}
+
+      {streamMode === "live" && (
+        <label className="flex items-center justify-between text-xs text-white/70">
+          <span>Venue</span>
+          <select
+            value={liveVenue}
+            onChange={(e) => onLiveVenueChange?.(e.target.value as LiveVenue)}
+            className="rounded-full bg-white/10 px-2 py-1 text-white"
+          >
+            {(Object.keys(venueLabels) as LiveVenue[]).map((venue) => (
+              <option key={venue} value={venue}>
+                {venueLabels[venue]}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {streamMode !== "synthetic" && (
+        <div className="flex flex-col gap-2 text-xs text-white/70">
+          <SymbolPicker
+            selected={symbols}
+            onChange={onSymbolsChange}
+            markets={markets && markets.length > 0 ? markets : fallbackMarkets}
+            mids={mids}
+            error={marketsError}
+          />
+          {symbols.length > 1 && (
+            <label className="flex items-center justify-between">
+              <span>Ribbon view</span>
+              <select
+                value={focusSymbol ?? ""}
+                onChange={(e) => onFocusSymbolChange?.(e.target.value || null)}
+                className="rounded-full bg-white/10 px-2 py-1 text-white"
+              >
+                <option value="">All selected</option>
+                {symbols.map((symbol) => (
+                  <option key={symbol} value={symbol}>
+                    {symbol}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+
+      {streamMode === "live" && liveVenue === "hyperliquid" && (
+        <label className="flex items-center justify-between text-xs text-white/70">
+          <span>Via server relay (SSE)</span>
+          <input
+            type="checkbox"
+            checked={useRelay}
+            onChange={(e) => onUseRelayChange?.(e.target.checked)}
+            className="accent-emerald-400"
+          />
+        </label>
+      )}
+
+      {streamMode === "live" && liveVenue === "hyperliquid" && (
+        <label className="flex flex-col gap-1 text-xs text-white/70">
+          <span>My wallet (highlights own fills, read-only)</span>
+          <input
+            type="text"
+            value={walletAddress}
+            onChange={(e) => onWalletAddressChange?.(e.target.value)}
+            placeholder="0x…"
+            spellCheck={false}
+            autoComplete="off"
+            aria-invalid={walletInvalid}
+            className={`rounded-full bg-white/10 px-3 py-1 font-mono text-white ${
+              walletInvalid ? "ring-1 ring-rose-400" : ""
+            }`}
+          />
+          {walletInvalid && (
+            <span className="text-rose-300">
+              Expected a 0x address with 40 hex digits
+            </span>
+          )}
+        </label>
+      )}
+
+      {streamMode === "live" && liveVenue === "hyperliquid" && !useRelay && (
+        <label className="flex items-center justify-between text-xs text-white/70">
+          <span>Parse in Web Worker</span>
+          <input
+            type="checkbox"
+            checked={offloadToWorker}
+            onChange={(e) => onOffloadToWorkerChange?.(e.target.checked)}
+            className="accent-emerald-400"
+          />
+        </label>
+      )}
+
+      {streamMode === "live" && liveVenue === "hyperliquid" && !useRelay && (
+        <div className="flex items-center justify-between text-xs text-white/70">
+          <span>Session recording (raw frames)</span>
+          <button
+            type="button"
+            onClick={onToggleRecording}
+            className={`rounded-full px-3 py-1 font-semibold ${
+              recording
+                ? "bg-rose-400/80 text-slate-900"
+                : "bg-white/10 text-white hover:bg-white/20"
+            }`}
+          >
+            {recording ? "Stop & download" : "Record"}
+          </button>
+        </div>
+      )}
+
+      {streamMode === "replay" && (
+        <div className="flex flex-col gap-2 text-xs text-white/70">
+          <div className="flex items-center justify-between gap-2">
+            <span>
+              {importedTradeCount > 0
+                ? `${importedTradeCount} imported trades${
+                    rejectedTradeCount > 0
+                      ? ` (${rejectedTradeCount} rows rejected)`
+                      : ""
+                  }`
+                : rejectedTradeCount > 0
+                  ? `No valid trades (${rejectedTradeCount} rows rejected)`
+                  : replayFrameCount > 0
+                    ? `${replayFrameCount} recorded frames`
+                    : "Load a recorded .jsonl session or a CSV/JSON trade export"}
+            </span>
+            <select
+              value={replaySpeed}
+              onChange={(e) => onReplaySpeedChange?.(Number(e.target.value))}
+              className="rounded-full bg-white/10 px-2 py-1 text-white"
+            >
+              {replaySpeeds.map((speed) => (
+                <option key={speed} value={speed}>
+                  {speed}×
+                </option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="file"
+            accept=".jsonl,.json,.csv,application/x-ndjson,application/json,text/csv"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onReplayFileSelected?.(file);
+            }}
+            className="text-white/70 file:mr-3 file:rounded-full file:border-0 file:bg-white/10 file:px-3 file:py-1 file:text-white"
+          />
+        </div>
+      )}
+
       <div className="flex flex-col gap-2">
+        {lookbackWindows && lookbackWindows.length > 1 && (
+          <div className="flex items-center justify-between gap-2 text-xs text-white/70">
+            <span>Ribbon window</span>
+            <div className="flex rounded-full border border-white/10 bg-white/5 p-[3px] font-semibold">
+              {lookbackWindows.map((seconds, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => onRibbonWindowChange?.(index)}
+                  className={`rounded-full px-2 py-[2px] transition ${
+                    index === ribbonWindowIndex
+                      ? "bg-white text-slate-900"
+                      : "text-white/70 hover:bg-white/10"
+                  }`}
+                >
+                  {formatLookback(seconds * 1000)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
         <div className="flex items-center justify-between text-xs text-white/70">
           <span>Window (temporal smoothing)</span>
-          <span>{windowSeconds}s</span>
+          <span>{formatLookback(windowSeconds * 1000)}</span>
         </div>
         <input
           type="range"
           min={5}
-          max={120}
+          max={MAX_LOOKBACK_MS / 1000}
           step={5}
           value={windowSeconds}
           onChange={(e) => onWindowChange(Number(e.target.value))}
           className="accent-emerald-400"
         />
+        {lookbackWindows && lookbackWindows.length > 1 && (
+          <label className="flex items-center justify-between text-xs text-white/70">
+            <span>Outline slowest window on the ribbon</span>
+            <input
+              type="checkbox"
+              checked={showSlowRibbon}
+              onChange={(e) => onShowSlowRibbonChange?.(e.target.checked)}
+              className="accent-emerald-400"
+            />
+          </label>
+        )}
       </div>
 
       <div className="hidden flex-col gap-2 md:flex">
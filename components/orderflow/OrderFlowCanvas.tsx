@@ -1,26 +1,117 @@
 "use client";
 
-import { useCallback, useEffect, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useOrderStream } from "@/lib/orderflow/useSyntheticOrderStream";
 import { useHyperliquidStream } from "@/lib/orderflow/useHyperliquidStream";
-import { OrderEvent, OrderflowStats, OrderSide } from "@/lib/orderflow/types";
+import { useMarketDataStream } from "@/lib/orderflow/useMarketDataStream";
+import { HyperliquidTransport } from "@/lib/orderflow/hyperliquid-source";
+import {
+  classifyFeed,
+  FeedReport,
+  FeedState,
+  formatFeedAge,
+  MarketDataSource,
+  StreamHealth,
+} from "@/lib/orderflow/market-data-source";
+import { useHyperliquidWorkerStream } from "@/lib/orderflow/useHyperliquidWorkerStream";
+import {
+  OrderEvent,
+  OrderflowStats,
+  OrderSide,
+  StreamMode,
+  WindowStats,
+  WindowSummary,
+  WindowTotals,
+} from "@/lib/orderflow/types";
+import {
+  buyShareOf,
+  formatLookback,
+  MAX_LOOKBACK_MS,
+  OrderflowAggregator,
+} from "@/lib/orderflow/orderflow-aggregator";
+import { ReorderBuffer, ReorderMetrics } from "@/lib/orderflow/reorder-buffer";
+import { HyperliquidWebSocket } from "@/lib/orderflow/hyperliquid-websocket";
+import {
+  createReplaySocketFactory,
+  RecordedFrame,
+} from "@/lib/orderflow/session-replay";
+import { SyntheticScenarioId } from "@/lib/orderflow/synthetic-scenarios";
+import { useTradePlayback } from "@/lib/orderflow/useTradePlayback";
+import { Clock, realtimeClock } from "@/lib/orderflow/clock";
+import { fillTradeId } from "@/lib/orderflow/user-fills";
 
 type OrderFlowCanvasProps = {
   label?: string;
   streaming?: boolean;
-  streamMode?: "synthetic" | "live";
+  streamMode?: StreamMode;
+  /** Any venue adapter; when set it replaces the built-in stream modes. */
+  source?: MarketDataSource | null;
+  /** Coins streamed together; each keeps its own rolling aggregate. */
+  symbols?: readonly string[];
+  /** Coin whose aggregate drives the ribbons; `null` = all selected. */
+  focusSymbol?: string | null;
+  /** Lookback driving the ribbons and the headline stats. */
   windowSeconds: number;
+  /**
+   * Lookbacks aggregated side by side (e.g. 10 s, 60 s, 5 m), reported in
+   * `stats.windows` in this order.
+   */
+  extraWindowsSeconds?: readonly number[];
+  /**
+   * One of `extraWindowsSeconds`, drawn as a thin outline over the main
+   * ribbons so short/long divergence stands out; `null` = none.
+   */
+  secondaryWindowSeconds?: number | null;
   onStatsChange?: (stats: OrderflowStats) => void;
+  /**
+   * Every order entering the window, in timestamp order, with whatever
+   * price/size/source/receivedAt its adapter provided (VWAP, tooltips,
+   * latency stats).
+   */
+  onOrder?: (order: OrderEvent) => void;
+  /** Feed state for the active stream, re-published every second. */
+  onFeedChange?: (feed: FeedReport) => void;
   separationScale?: number;
+  /** Live mode only: run the socket and aggregation in a Web Worker. */
+  offloadToWorker?: boolean;
+  /** Live mode only: "relay" reads the server SSE route instead of a socket. */
+  liveTransport?: HyperliquidTransport;
+  /** Recorded session played back in "replay" mode. */
+  replayFrames?: readonly RecordedFrame[];
+  /**
+   * Imported trades (see `parseTradeFile`); when non-empty, "replay" mode
+   * plays these instead of `replayFrames`, on their own trade-time clock.
+   */
+  importedOrders?: readonly OrderEvent[];
+  replaySpeed?: number;
+  /** Synthetic mode only: preset driving sides, sizes and arrival gaps. */
+  syntheticScenario?: SyntheticScenarioId;
+  syntheticSeed?: number;
+  /**
+   * Time source for the windows and synthetic arrivals (particles animate
+   * on frame time); defaults to wall time. Imported-trade playback
+   * substitutes its own clock.
+   */
+  clock?: Clock;
+  /**
+   * The watched wallet's fills (see `useUserFills`). Fills inside the window
+   * outline their public trade's particle (or spawn one when the tape has
+   * no such trade) and feed `stats.ownFlow`; they are not added to the
+   * market totals, where the public tape already counts them.
+   */
+  ownFills?: readonly OrderEvent[];
 };
 
 type Particle = {
   id: string;
   side: OrderSide;
   volume: number;
+  /** Frame time (`performance.now()`), not clock time. */
   birth: number;
   duration: number;
   radius: number;
+  /** One of the watched wallet's fills; drawn with an outline. */
+  own?: boolean;
 };
 
 const bgGradient = ["#0b1221", "#0f1e37", "#132a4c"];
@@ -28,6 +119,9 @@ const buyColor = "rgba(4, 233, 38, 0.35)"; // ribbon fill
 const sellColor = "rgba(248, 113, 113, 0.35)";
 const particleBuyColor = "rgb(11, 247, 7)"; // brighter particles
 const particleSellColor = "rgba(244, 6, 6, 0.92)"; // reuse red hue
+const ownFillOutline = "rgba(250, 204, 21, 0.95)";
+const secondaryBuyStroke = "rgba(134, 239, 172, 0.9)";
+const secondarySellStroke = "rgba(252, 165, 165, 0.9)";
 const totalFlowHeight = 80; // combined stack height (pixels) at origin
 const minBandHeight = 6;
 const maxParticles = 400;
@@ -41,6 +135,41 @@ type FlowGeometry = {
   separationMax: number;
 };
 
+const defaultSymbols = ["BTC"];
+const noOrders: OrderEvent[] = [];
+const noWindows: readonly number[] = [];
+const feedBadgeStyles: Record<FeedState, string> = {
+  paused: "border-white/15",
+  connecting: "border-sky-300/40 text-sky-200",
+  live: "border-emerald-300/40 text-emerald-200",
+  stale: "border-amber-300/60 bg-amber-400/20 text-amber-100",
+  down: "border-rose-300/60 bg-rose-500/20 text-rose-100",
+};
+const emptyTotals: WindowTotals = { buy: 0, sell: 0, buyCount: 0, sellCount: 0 };
+
+const sameWindowCounts = (a?: WindowStats[], b?: WindowStats[]) =>
+  (a?.length ?? 0) === (b?.length ?? 0) &&
+  (a ?? []).every(
+    (window, i) =>
+      window.windowMs === b?.[i].windowMs &&
+      window.buyCount === b[i].buyCount &&
+      window.sellCount === b[i].sellCount
+  );
+
+// Per-coin trade counts only move when trades enter or leave a window.
+const sameSymbolCounts = (
+  a?: Record<string, WindowTotals>,
+  b?: Record<string, WindowTotals>
+) => {
+  const aKeys = Object.keys(a ?? {});
+  if (aKeys.length !== Object.keys(b ?? {}).length) return false;
+  return aKeys.every(
+    (key) =>
+      a?.[key].buyCount === b?.[key]?.buyCount &&
+      a?.[key].sellCount === b?.[key]?.sellCount
+  );
+};
+
 const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
 const sigmoidNormalized = (t: number) => {
   const sig = (x: number) => 1 / (1 + Math.exp(-10 * (x - 0.5)));
@@ -53,14 +182,41 @@ export function OrderFlowCanvas({
   label = "Synthetic stream",
   streaming = true,
   streamMode = "synthetic",
+  source = null,
+  symbols = defaultSymbols,
+  focusSymbol = null,
   windowSeconds,
+  extraWindowsSeconds = noWindows,
+  secondaryWindowSeconds = null,
   onStatsChange,
+  onOrder,
+  onFeedChange,
   separationScale = 1,
+  offloadToWorker = false,
+  liveTransport = "direct",
+  replayFrames,
+  importedOrders = noOrders,
+  replaySpeed = 1,
+  syntheticScenario = "balanced",
+  syntheticSeed,
+  clock = realtimeClock,
+  ownFills = noOrders,
 }: OrderFlowCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const particlesRef = useRef<Particle[]>([]);
-  const queueRef = useRef<OrderEvent[]>([]);
-  const totalsRef = useRef({ buy: 0, sell: 0, buyCount: 0, sellCount: 0 });
+  // Combined and per-coin window totals; history is kept up to the longest
+  // lookback so growing the window restores trades that aged out. Built
+  // once (lazy state), then swapped through the ref when the clock changes.
+  const [initialAggregator] = useState(
+    () =>
+      new OrderflowAggregator({
+        windowMs: windowSeconds * 1000,
+        extraWindowsMs: extraWindowsSeconds.map((seconds) => seconds * 1000),
+        retainMs: MAX_LOOKBACK_MS,
+        clock,
+      })
+  );
+  const aggregatorRef = useRef(initialAggregator);
   const statsRef = useRef<OrderflowStats>({
     buyShare: 0.5,
     sellShare: 0.5,
@@ -68,64 +224,375 @@ export function OrderFlowCanvas({
     sellVolume: 0,
     buyCount: 0,
     sellCount: 0,
+    lateTrades: 0,
+    droppedTrades: 0,
   });
   const windowMsRef = useRef(windowSeconds * 1000);
+  const extraWindowsMsRef = useRef(
+    extraWindowsSeconds.map((seconds) => seconds * 1000)
+  );
+  const secondaryWindowMsRef = useRef<number | null>(null);
   const animationRef = useRef<number | null>(null);
   const statsCallbackRef = useRef<typeof onStatsChange>(onStatsChange);
+  const orderCallbackRef = useRef<typeof onOrder>(onOrder);
   const geometryRef = useRef<FlowGeometry | null>(null);
-
+  const reorderRef = useRef(new ReorderBuffer());
+  const workerReorderRef = useRef<ReorderMetrics | null>(null);
+  const workerTotalsRef = useRef<WindowTotals>(emptyTotals);
+  const workerBySymbolRef = useRef<Record<string, WindowTotals>>({});
+  const workerWindowsRef = useRef<WindowSummary[]>([]);
+  // Own fills, kept apart from the market aggregates.
+  const [initialOwnFlow] = useState(
+    () =>
+      new OrderflowAggregator({
+        windowMs: windowSeconds * 1000,
+        retainMs: MAX_LOOKBACK_MS,
+        clock,
+      })
+  );
+  const ownFlowRef = useRef(initialOwnFlow);
+  const seenFillsRef = useRef(new Set<string>());
+  // Public trade ids of the listed fills, so their particles get outlined.
+  const ownTradeIdsRef = useRef(new Set<string>());
+  const focusSymbolRef = useRef(focusSymbol);
+  // `clock`, or the playback clock while imported trades play.
+  const clockRef = useRef<Clock>(clock);
+
+  // Streams can deliver out of order (batched frames, backfill, reconnects),
+  // so orders pass through the reorder buffer and are released by the
+  // render loop in timestamp order. Only trades older than the retained
+  // history are dropped; older than the ribbon window still feeds the
+  // longer windows.
   const handleOrder = (order: OrderEvent) => {
-    queueRef.current.push(order);
-    if (order.side === "buy") {
-      totalsRef.current.buy += order.volume;
-      totalsRef.current.buyCount += 1;
-    } else {
-      totalsRef.current.sell += order.volume;
-      totalsRef.current.sellCount += 1;
+    reorderRef.current.push(
+      order,
+      aggregatorRef.current.cutoff(clockRef.current.now())
+    );
+  };
+
+  function ingestOrder(order: OrderEvent) {
+    aggregatorRef.current.ingest(order);
+    if (!focusSymbolRef.current || order.symbol === focusSymbolRef.current) {
+      spawnParticle(order);
+    }
+    orderCallbackRef.current?.(order);
+  }
+
+  // Worker batches arrive with authoritative window totals, so the local
+  // aggregator is bypassed and only particles are spawned here.
+  const handleWorkerBatch = (
+    orders: OrderEvent[],
+    totals: WindowTotals,
+    bySymbol: Record<string, WindowTotals>,
+    reorder: ReorderMetrics,
+    windows: WindowSummary[]
+  ) => {
+    workerTotalsRef.current = totals;
+    workerBySymbolRef.current = bySymbol;
+    workerWindowsRef.current = windows;
+    workerReorderRef.current = reorder;
+    for (const order of orders) {
+      if (!focusSymbolRef.current || order.symbol === focusSymbolRef.current) {
+        spawnParticle(order);
+      }
+      orderCallbackRef.current?.(order);
     }
-    totalsRef.current.buy = Math.max(0, totalsRef.current.buy);
-    totalsRef.current.sell = Math.max(0, totalsRef.current.sell);
-    spawnParticle(order);
     updateStats();
   };
 
+  // The relay already does the heavy lifting server-side.
+  const useWorker = !source && offloadToWorker && liveTransport === "direct";
+  const worker = useHyperliquidWorkerStream({
+    enabled: streaming && streamMode === "live" && useWorker,
+    symbols,
+    windowSeconds,
+    extraWindowsSeconds,
+    onBatch: handleWorkerBatch,
+  });
+  const workerActive = useWorker && !worker.fallback;
+  const workerActiveRef = useRef(workerActive);
+
   const synthetic = useOrderStream({
-    enabled: streaming && streamMode === "synthetic",
+    enabled: streaming && !source && streamMode === "synthetic",
+    scenario: syntheticScenario,
+    seed: syntheticSeed,
+    clock,
     onOrderReceived: handleOrder,
   });
   const live = useHyperliquidStream({
-    enabled: streaming && streamMode === "live",
+    enabled: streaming && !source && streamMode === "live" && !workerActive,
+    symbols,
+    transport: liveTransport,
+    onOrderReceived: handleOrder,
+  });
+
+  // Replays run through their own client so the live singleton is untouched.
+  const replayClient = useMemo(
+    () =>
+      replayFrames && replayFrames.length > 0
+        ? new HyperliquidWebSocket({
+            url: "replay://session",
+            createSocket: createReplaySocketFactory(replayFrames, {
+              speed: replaySpeed,
+            }),
+            suspendWhenHiddenMs: false,
+          })
+        : null,
+    [replayFrames, replaySpeed]
+  );
+  useEffect(() => () => replayClient?.disconnect(), [replayClient]);
+
+  // Recorded trades carry historical times; stamp them on arrival so the
+  // window keeps them for the usual lookback.
+  const handleReplayOrder = (order: OrderEvent) =>
+    handleOrder({
+      ...order,
+      timestamp: clockRef.current.now(),
+      source: "replay",
+    });
+
+  const external = useMarketDataStream({
+    source,
+    symbols,
+    enabled: streaming && source !== null,
+    onOrderReceived: handleOrder,
+  });
+
+  const playbackActive =
+    !source && streamMode === "replay" && importedOrders.length > 0;
+  const playback = useTradePlayback({
+    orders: importedOrders,
+    speed: replaySpeed,
+    enabled: streaming && playbackActive,
     onOrderReceived: handleOrder,
   });
+  const playbackClock = playbackActive ? playback.clock : null;
+
+  const replay = useHyperliquidStream({
+    enabled:
+      streaming &&
+      !source &&
+      streamMode === "replay" &&
+      !playbackActive &&
+      replayClient !== null,
+    client: replayClient ?? undefined,
+    symbols,
+    backfill: false,
+    onOrderReceived: handleReplayOrder,
+  });
+
+  useEffect(() => {
+    workerActiveRef.current = workerActive;
+  }, [workerActive]);
+
+  // Switching clocks changes the time axis, so trades already in the window
+  // (and the reorder watermark) are dropped rather than aged out against
+  // the wrong clock.
+  const activeClock = playbackClock ?? clock;
+  useEffect(() => {
+    clockRef.current = activeClock;
+    const options = {
+      windowMs: windowMsRef.current,
+      retainMs: MAX_LOOKBACK_MS,
+      clock: activeClock,
+    };
+    aggregatorRef.current = new OrderflowAggregator({
+      ...options,
+      extraWindowsMs: extraWindowsMsRef.current,
+    });
+    ownFlowRef.current = new OrderflowAggregator(options);
+    reorderRef.current = new ReorderBuffer();
+    updateStats(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeClock]);
+
+  useEffect(() => {
+    focusSymbolRef.current = focusSymbol;
+    updateStats(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusSymbol]);
+
+  // Deselected coins stop getting trades; drop their aggregates right away.
+  useEffect(() => {
+    const selected = new Set(symbols.map((s) => s.trim()));
+    for (const aggregator of [aggregatorRef.current, ownFlowRef.current]) {
+      for (const symbol of Object.keys(aggregator.snapshot().bySymbol)) {
+        if (!selected.has(symbol)) aggregator.forget(symbol);
+      }
+    }
+  }, [symbols]);
+
+  // Fills arrive as a whole list; only ids not seen before are new. Fills
+  // within the retained history are ingested, so growing the lookback brings
+  // them back like market trades; only those inside the window get a
+  // particle.
+  useEffect(() => {
+    const seen = seenFillsRef.current;
+    const now = clockRef.current.now();
+    const cutoff = now - windowMsRef.current;
+    ownTradeIdsRef.current = new Set(
+      ownFills.map((fill) => fillTradeId(fill.id))
+    );
+    for (const fill of ownFills) {
+      if (seen.has(fill.id) || !fill.symbol) continue;
+      ownFlowRef.current.ingest(fill, now);
+      if (
+        fill.timestamp < cutoff ||
+        (focusSymbolRef.current && fill.symbol !== focusSymbolRef.current)
+      ) {
+        continue;
+      }
+      const trade = particlesRef.current.find(
+        (particle) => particle.id === fillTradeId(fill.id)
+      );
+      if (trade) {
+        trade.own = true;
+      } else {
+        spawnParticle(fill, true);
+      }
+    }
+    seenFillsRef.current = new Set(ownFills.map((fill) => fill.id));
+  }, [ownFills]);
 
   useEffect(() => {
-    if (streaming) {
-      if (streamMode === "synthetic") {
-        synthetic.resumeStream();
-        live.pauseStream();
+    const liveStream = workerActive ? worker : live;
+    const active = !streaming
+      ? null
+      : source
+        ? external
+        : streamMode === "synthetic"
+        ? synthetic
+        : streamMode === "replay"
+          ? playbackActive
+            ? playback
+            : replay
+          : liveStream;
+    for (const stream of [synthetic, live, worker, replay, playback, external]) {
+      if (stream === active) {
+        stream.resumeStream();
       } else {
-        live.resumeStream();
-        synthetic.pauseStream();
+        stream.pauseStream();
       }
-    } else {
-      synthetic.pauseStream();
-      live.pauseStream();
     }
-  }, [live, synthetic, streamMode, streaming]);
+  }, [
+    live,
+    synthetic,
+    worker,
+    replay,
+    playback,
+    playbackActive,
+    external,
+    source,
+    workerActive,
+    streamMode,
+    streaming,
+  ]);
+
+  // Only socket-backed streams have health; synthetic and imported playback
+  // just read as streaming. Replays may have long gaps, so never "stale".
+  const feedHealth: StreamHealth | null = source
+    ? external.health
+    : streamMode === "live"
+      ? workerActive
+        ? worker.health
+        : live.health
+      : streamMode === "replay" && !playbackActive
+        ? replay.health
+        : null;
+  const [feedNow, setFeedNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!feedHealth || !streaming) return;
+    const timer = setInterval(() => setFeedNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [feedHealth, streaming]);
+  const feedState: FeedState = feedHealth
+    ? classifyFeed(feedHealth, feedNow, {
+        streaming,
+        staleAfterMs: streamMode === "replay" ? Infinity : undefined,
+      })
+    : streaming
+      ? "live"
+      : "paused";
+  const lastTradeAgeMs =
+    feedHealth?.lastTradeAt != null
+      ? Math.max(0, feedNow - feedHealth.lastTradeAt)
+      : null;
+  const feedBadge =
+    feedState === "paused"
+      ? "Paused"
+      : feedState === "connecting"
+        ? "Connecting…"
+        : feedState === "down"
+          ? feedHealth?.status === "offline"
+            ? "Offline"
+            : `Reconnecting · attempt ${Math.max(1, feedHealth?.attempt ?? 1)}`
+          : feedState === "stale"
+            ? `Stale feed · no trades ${formatFeedAge(
+                lastTradeAgeMs ??
+                  (feedHealth ? feedNow - feedHealth.since : null)
+              )}`
+            : feedHealth
+              ? `Live · ${formatFeedAge(lastTradeAgeMs)}`
+              : "Streaming";
+
+  const feedCallbackRef = useRef(onFeedChange);
+  useEffect(() => {
+    feedCallbackRef.current = onFeedChange;
+  }, [onFeedChange]);
+  useEffect(() => {
+    feedCallbackRef.current?.({
+      state: feedState,
+      health: feedHealth,
+      lastTradeAgeMs,
+    });
+  }, [feedState, feedHealth, lastTradeAgeMs]);
 
   useEffect(() => {
     windowMsRef.current = windowSeconds * 1000;
-    // Resync aggregates when window changes
-    recomputeTotals();
+    // Only buckets crossing the new cutoff are touched; the worker resizes
+    // its own aggregator.
+    aggregatorRef.current.setWindow(windowMsRef.current);
+    ownFlowRef.current.setWindow(windowMsRef.current);
     updateStats(true);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [windowSeconds]);
 
+  // New windows fill from retained history; unchanged ones keep totals.
+  const extraWindowsKey = extraWindowsSeconds.join(",");
+  useEffect(() => {
+    extraWindowsMsRef.current = extraWindowsKey
+      ? extraWindowsKey.split(",").map((seconds) => Number(seconds) * 1000)
+      : [];
+    aggregatorRef.current.setExtraWindows(extraWindowsMsRef.current);
+    updateStats(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [extraWindowsKey]);
+
+  useEffect(() => {
+    secondaryWindowMsRef.current =
+      secondaryWindowSeconds !== null ? secondaryWindowSeconds * 1000 : null;
+    updateStats(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [secondaryWindowSeconds]);
+
   useEffect(() => {
     statsCallbackRef.current = onStatsChange;
   }, [onStatsChange]);
 
-  function spawnParticle(order: OrderEvent) {
+  useEffect(() => {
+    orderCallbackRef.current = onOrder;
+  }, [onOrder]);
+
+  function spawnParticle(order: OrderEvent, own = false) {
+    // A public trade released after its fill: outline it, or skip it when
+    // the fill already drew one.
+    if (!own && ownTradeIdsRef.current.has(order.id)) {
+      const fillShown = particlesRef.current.some(
+        (particle) => particle.own && fillTradeId(particle.id) === order.id
+      );
+      if (fillShown) return;
+      own = true;
+    }
     const radius = Math.max(2, Math.log(order.volume + 1) * 1.2);
     const duration = 1400 + Math.random() * 800;
     particlesRef.current.push({
@@ -135,6 +602,7 @@ export function OrderFlowCanvas({
       birth: performance.now(),
       duration,
       radius,
+      own,
     });
     if (particlesRef.current.length > maxParticles) {
       particlesRef.current.splice(
@@ -144,68 +612,79 @@ export function OrderFlowCanvas({
     }
   }
 
-  function pruneWindow() {
-    const cutoff = Date.now() - windowMsRef.current;
-    const queue = queueRef.current;
-    while (queue.length && queue[0].timestamp < cutoff) {
-      const expired = queue.shift();
-      if (!expired) break;
-      if (expired.side === "buy") {
-        totalsRef.current.buy -= expired.volume;
-        totalsRef.current.buyCount -= 1;
-      } else {
-        totalsRef.current.sell -= expired.volume;
-        totalsRef.current.sellCount -= 1;
-      }
-      totalsRef.current.buy = Math.max(0, totalsRef.current.buy);
-      totalsRef.current.sell = Math.max(0, totalsRef.current.sell);
-    }
-  }
-
-  function recomputeTotals() {
-    const cutoff = Date.now() - windowMsRef.current;
-    let buy = 0;
-    let sell = 0;
-    let buyCount = 0;
-    let sellCount = 0;
-    for (const o of queueRef.current) {
-      if (o.timestamp >= cutoff) {
-        if (o.side === "buy") {
-          buy += o.volume;
-          buyCount += 1;
-        } else {
-          sell += o.volume;
-          sellCount += 1;
-        }
-      }
-    }
-    totalsRef.current = {
-      buy: Math.max(0, buy),
-      sell: Math.max(0, sell),
-      buyCount,
-      sellCount,
-    };
-  }
-
   function updateStats(force = false) {
-    pruneWindow();
-    const total = totalsRef.current.buy + totalsRef.current.sell;
-    const rawBuy = total > 0 ? totalsRef.current.buy / total : 0.5;
+    for (const order of reorderRef.current.drain()) {
+      ingestOrder(order);
+    }
+    const workerActive = workerActiveRef.current;
+    const snapshot = aggregatorRef.current.snapshot();
+    const reorder = workerActive
+      ? (workerReorderRef.current ?? reorderRef.current.metrics)
+      : reorderRef.current.metrics;
+    const bySymbol = workerActive
+      ? workerBySymbolRef.current
+      : snapshot.bySymbol;
+    const focus = focusSymbolRef.current;
+    const view: WindowTotals = focus
+      ? (bySymbol[focus] ?? emptyTotals)
+      : workerActive
+        ? workerTotalsRef.current
+        : snapshot.totals;
+    const rawBuy = buyShareOf(view);
     const smoothedBuy =
       emaAlpha * rawBuy + (1 - emaAlpha) * statsRef.current.buyShare;
     const buyShare = Math.min(1, Math.max(0, smoothedBuy));
     const sellShare = 1 - buyShare;
+    const own = ownFlowRef.current.snapshot();
+    const ownFlow = focus ? (own.bySymbol[focus] ?? emptyTotals) : own.totals;
+    const windows: WindowStats[] = (
+      workerActive ? workerWindowsRef.current : snapshot.windows
+    ).map(({ windowMs, totals, bySymbol: perSymbol }) => {
+      const windowView = focus ? (perSymbol[focus] ?? emptyTotals) : totals;
+      return { windowMs, buyShare: buyShareOf(windowView), ...windowView };
+    });
+    const secondary = windows.find(
+      (window) => window.windowMs === secondaryWindowMsRef.current
+    );
+    const secondaryBuyShare = secondary
+      ? Math.min(
+          1,
+          Math.max(
+            0,
+            emaAlpha * secondary.buyShare +
+              (1 - emaAlpha) *
+                (statsRef.current.secondaryBuyShare ?? secondary.buyShare)
+          )
+        )
+      : undefined;
     const nextStats: OrderflowStats = {
       buyShare,
       sellShare,
-      buyVolume: totalsRef.current.buy,
-      sellVolume: totalsRef.current.sell,
-      buyCount: totalsRef.current.buyCount,
-      sellCount: totalsRef.current.sellCount,
+      buyVolume: view.buy,
+      sellVolume: view.sell,
+      buyCount: view.buyCount,
+      sellCount: view.sellCount,
+      lateTrades: reorder.late,
+      droppedTrades: reorder.dropped,
+      bySymbol,
+      ownFlow,
+      windows,
+      secondaryBuyShare,
     };
 
     if (
       force ||
+      nextStats.lateTrades !== statsRef.current.lateTrades ||
+      nextStats.droppedTrades !== statsRef.current.droppedTrades ||
+      !sameSymbolCounts(nextStats.bySymbol, statsRef.current.bySymbol) ||
+      ownFlow.buyCount !== statsRef.current.ownFlow?.buyCount ||
+      ownFlow.sellCount !== statsRef.current.ownFlow?.sellCount ||
+      !sameWindowCounts(nextStats.windows, statsRef.current.windows) ||
+      (secondaryBuyShare === undefined) !==
+        (statsRef.current.secondaryBuyShare === undefined) ||
+      Math.abs(
+        (secondaryBuyShare ?? 0) - (statsRef.current.secondaryBuyShare ?? 0)
+      ) > 0.001 ||
       Math.abs(nextStats.buyShare - statsRef.current.buyShare) > 0.001 ||
       Math.abs(nextStats.sellShare - statsRef.current.sellShare) > 0.001
     ) {
@@ -321,6 +800,11 @@ export function OrderFlowCanvas({
     ctx.fillStyle = sellColor;
     ctx.fill();
 
+    const { secondaryBuyShare } = statsRef.current;
+    if (secondaryBuyShare !== undefined) {
+      drawSecondaryRibbons(ctx, secondaryBuyShare);
+    }
+
     // Overlay stats chips near ribbons
     const tipSample = calcEdgesAt(1, buyShare);
     if (tipSample) {
@@ -389,6 +873,43 @@ export function OrderFlowCanvas({
     }
   };
 
+  // The slower window's ribbons as thin dashed outlines on the same
+  // geometry, so a gap between outline and fill is short/long divergence.
+  const drawSecondaryRibbons = (
+    ctx: CanvasRenderingContext2D,
+    buyShare: number
+  ) => {
+    const samples: NonNullable<ReturnType<typeof calcEdgesAt>>[] = [];
+    for (let i = 0; i <= ribbonSamples; i++) {
+      const edges = calcEdgesAt(i / ribbonSamples, buyShare);
+      if (edges) samples.push(edges);
+    }
+    if (samples.length === 0) return;
+    const outline = (
+      top: (edges: (typeof samples)[number]) => number,
+      bottom: (edges: (typeof samples)[number]) => number,
+      color: string
+    ) => {
+      ctx.beginPath();
+      samples.forEach((edges, idx) => {
+        if (idx === 0) ctx.moveTo(edges.x, top(edges));
+        else ctx.lineTo(edges.x, top(edges));
+      });
+      for (let i = samples.length - 1; i >= 0; i--) {
+        ctx.lineTo(samples[i].x, bottom(samples[i]));
+      }
+      ctx.closePath();
+      ctx.strokeStyle = color;
+      ctx.stroke();
+    };
+    ctx.save();
+    ctx.lineWidth = 1.25;
+    ctx.setLineDash([4, 3]);
+    outline((e) => e.buyTop, (e) => e.buyBot, secondaryBuyStroke);
+    outline((e) => e.sellTop, (e) => e.sellBot, secondarySellStroke);
+    ctx.restore();
+  };
+
   const drawFrame = () => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext("2d");
@@ -409,7 +930,8 @@ export function OrderFlowCanvas({
 
     drawRibbons(ctx);
 
-    // Particles
+    // Particles age on frame time, not the stream clock: at 20× playback
+    // they would expire before showing, and a paused one would pin them.
     const now = performance.now();
     const active: Particle[] = [];
     for (const p of particlesRef.current) {
@@ -428,6 +950,16 @@ export function OrderFlowCanvas({
           : particleSellColor.replace("ALPHA", (0.6 * alpha).toFixed(3));
       ctx.arc(point.x, point.y, p.radius, 0, Math.PI * 2);
       ctx.fill();
+      if (p.own) {
+        ctx.save();
+        ctx.globalAlpha = Math.max(0.25, alpha);
+        ctx.strokeStyle = ownFillOutline;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, p.radius + 2.5, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.restore();
+      }
 
       if (t < 1) active.push(p);
     }
@@ -468,10 +1000,16 @@ export function OrderFlowCanvas({
       <canvas ref={canvasRef} className="h-full w-full" />
       <div className="pointer-events-none absolute inset-x-3 top-3 flex items-center justify-between text-[11px] font-semibold text-white/70">
         <span className="rounded-full border border-white/15 px-2 py-[2px] backdrop-blur-sm">
-          {label} · {windowSeconds}s
+          {label} · {formatLookback(windowSeconds * 1000)}
+          {secondaryWindowSeconds !== null
+            ? ` · outline ${formatLookback(secondaryWindowSeconds * 1000)}`
+            : ""}
         </span>
-        <span className="rounded-full border border-white/15 px-2 py-[2px] backdrop-blur-sm">
-          {streaming ? "Streaming" : "Paused"}
+        <span
+          title={feedHealth?.error ?? undefined}
+          className={`rounded-full border px-2 py-[2px] backdrop-blur-sm ${feedBadgeStyles[feedState]}`}
+        >
+          {feedBadge}
         </span>
       </div>
     </div>
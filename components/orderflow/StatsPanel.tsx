@@ -1,5 +1,13 @@
 "use client";
 
+import { OrderEvent, WindowStats, WindowTotals } from "@/lib/orderflow/types";
+import { FeedReport, formatFeedAge } from "@/lib/orderflow/market-data-source";
+import {
+  buyShareOf,
+  formatLookback,
+  MAX_LOOKBACK_MS,
+} from "@/lib/orderflow/orderflow-aggregator";
+
 type StatsPanelProps = {
   buyShare: number; // 0-1
   sellShare: number; // 0-1
@@ -8,10 +16,33 @@ type StatsPanelProps = {
   sellVolume?: number;
   buyCount?: number;
   sellCount?: number;
+  lateTrades?: number;
+  droppedTrades?: number;
+  /** Per-coin totals; listed when more than one coin is streaming. */
+  bySymbol?: Record<string, WindowTotals>;
+  /** Feed health from the canvas; warns when the feed is stale or down. */
+  feed?: FeedReport | null;
+  /** The watched wallet's totals in the window; set while a wallet is watched. */
+  ownFlow?: WindowTotals;
+  /** The watched wallet's recent fills, newest first. */
+  ownFills?: readonly OrderEvent[];
+  ownFillsError?: string | null;
+  /** Every concurrent lookback; the one matching `windowSeconds` is marked. */
+  windows?: WindowStats[];
   className?: string;
 };
 
 const formatPct = (value: number) => `${(value * 100).toFixed(1)}%`;
+const maxListedFills = 5;
+const fillTime = new Intl.DateTimeFormat(undefined, {
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+const formatNumber = (value: number | undefined) =>
+  value === undefined
+    ? "-"
+    : value.toLocaleString(undefined, { maximumSignificantDigits: 5 });
 
 export function StatsPanel({
   buyShare,
@@ -21,8 +52,19 @@ export function StatsPanel({
   sellVolume,
   buyCount,
   sellCount,
+  lateTrades,
+  droppedTrades,
+  bySymbol,
+  feed,
+  ownFlow,
+  ownFills,
+  ownFillsError,
+  windows,
   className,
 }: StatsPanelProps) {
+  const health = feed?.health ?? null;
+  const marketVolume = (buyVolume ?? 0) + (sellVolume ?? 0);
+  const ownVolume = ownFlow ? ownFlow.buy + ownFlow.sell : 0;
   return (
     <div
       className={`flex flex-col gap-2 rounded-2xl border border-white/10 bg-slate-950/80 p-4 text-sm shadow-lg ${
@@ -30,8 +72,31 @@ export function StatsPanel({
       }`}
     >
       <div className="text-[11px] uppercase tracking-[0.2em] text-white/50">
-        Lookback: {windowSeconds}s
+        Lookback: {formatLookback(windowSeconds * 1000)}
       </div>
+      {feed?.state === "stale" && (
+        <div
+          role="alert"
+          className="rounded-xl border border-amber-300/50 bg-amber-400/15 p-3 text-xs text-amber-100"
+        >
+          Stale feed: the socket reports connected but no trades have arrived
+          for {formatFeedAge(feed.lastTradeAgeMs)}. Shares below may be out of
+          date.
+        </div>
+      )}
+      {feed?.state === "down" && (
+        <div
+          role="alert"
+          className="rounded-xl border border-rose-300/50 bg-rose-500/15 p-3 text-xs text-rose-100"
+        >
+          Feed down
+          {health?.status === "offline"
+            ? ""
+            : ` — reconnecting (attempt ${Math.max(1, health?.attempt ?? 1)})`}
+          {health?.error ? `: ${health.error}` : ""}. Shares below are frozen
+          data, not a quiet market.
+        </div>
+      )}
       <StatTile
         label="Buys"
         value={`${formatPct(buyShare)} • ${buyVolume ? Math.round(buyVolume) : "-"} vol • ${
@@ -46,6 +111,101 @@ export function StatsPanel({
         } trades`}
         accent="bg-rose-400"
       />
+      {windows && windows.length > 0 && (
+        <div className="flex flex-col gap-1 rounded-xl bg-white/5 p-3 text-xs text-white/80">
+          {windows.map((window, index) => {
+            const ribbon = window.windowMs === windowSeconds * 1000;
+            return (
+              <div
+                key={`${window.windowMs}-${index}`}
+                className={`flex justify-between gap-2 ${
+                  ribbon ? "font-semibold text-white" : ""
+                }`}
+              >
+                <span>
+                  {formatLookback(window.windowMs)}
+                  {ribbon ? " • ribbon" : ""}
+                </span>
+                <span>
+                  {formatPct(window.buyShare)} buy •{" "}
+                  {Math.round(window.buy + window.sell)} vol •{" "}
+                  {window.buyCount + window.sellCount} trades
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {bySymbol && Object.keys(bySymbol).length > 1 && (
+        <div className="flex flex-col gap-1 rounded-xl bg-white/5 p-3 text-xs text-white/80">
+          {Object.entries(bySymbol).map(([symbol, totals]) => {
+            const share = buyShareOf(totals);
+            return (
+              <div key={symbol} className="flex justify-between gap-2">
+                <span className="font-semibold">{symbol}</span>
+                <span>
+                  {formatPct(share)} buy • {totals.buyCount + totals.sellCount}{" "}
+                  trades
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {ownFills && (
+        <div className="flex flex-col gap-1 rounded-xl border border-amber-300/30 bg-white/5 p-3 text-xs text-white/80">
+          <div className="flex items-center gap-2 text-[11px] uppercase tracking-[0.2em] text-white/50">
+            <span className="h-2 w-2 rounded-full border-2 border-amber-300" />
+            My flow
+          </div>
+          <div className="font-semibold text-white/90">
+            {marketVolume > 0 ? formatPct(ownVolume / marketVolume) : "-"} of
+            window volume •{" "}
+            {ownVolume > 0 && ownFlow
+              ? `${formatPct(ownFlow.buy / ownVolume)} buy`
+              : "no fills"}{" "}
+            in {formatLookback(windowSeconds * 1000)}
+          </div>
+          {ownFillsError && (
+            <div className="text-rose-200">Fills feed: {ownFillsError}</div>
+          )}
+          {ownFills.length === 0 ? (
+            <div className="text-white/50">No recent fills on these coins</div>
+          ) : (
+            ownFills.slice(0, maxListedFills).map((fill) => (
+              <div key={fill.id} className="flex justify-between gap-2">
+                <span className="text-white/50">
+                  {fillTime.format(fill.timestamp)}
+                </span>
+                <span
+                  className={
+                    fill.side === "buy" ? "text-emerald-300" : "text-rose-300"
+                  }
+                >
+                  {fill.side === "buy" ? "Buy" : "Sell"} {fill.symbol}
+                </span>
+                <span>
+                  {formatNumber(fill.size)} @ {formatNumber(fill.price)}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+      <div className="text-[11px] text-white/50">
+        Late {lateTrades ?? 0} • dropped {droppedTrades ?? 0} (older than{" "}
+        {formatLookback(MAX_LOOKBACK_MS)} of history)
+      </div>
+      {health && (
+        <div className="text-[11px] text-white/50">
+          Feed {health.status}
+          {health.attempt > 0 ? ` • attempt ${health.attempt}` : ""} •{" "}
+          {feed?.lastTradeAgeMs != null
+            ? `last trade ${formatFeedAge(feed.lastTradeAgeMs)} ago`
+            : "no trades yet"}
+          {health.error ? ` • ${health.error}` : ""}
+        </div>
+      )}
     </div>
   );
 }
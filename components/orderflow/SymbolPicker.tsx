@@ -0,0 +1,120 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { HyperliquidMarket, MidsMap } from "@/lib/orderflow/hyperliquid-websocket";
+
+type SymbolPickerProps = {
+  selected: string[];
+  onChange?: (symbols: string[]) => void;
+  markets: HyperliquidMarket[];
+  mids?: MidsMap;
+  /** Shown when no matches are listed, e.g. metadata failed to load. */
+  error?: string | null;
+};
+
+const maxResults = 30;
+
+const formatMid = (mid: number | undefined) => {
+  if (mid === undefined) return "–";
+  if (mid >= 1000) return mid.toLocaleString(undefined, { maximumFractionDigits: 0 });
+  if (mid >= 1) return mid.toFixed(2);
+  return mid.toPrecision(4);
+};
+
+/**
+ * Searchable multi-select over exchange markets. Selected coins render as
+ * removable chips; the search list shows each coin's current mid.
+ */
+export function SymbolPicker({
+  selected,
+  onChange,
+  markets,
+  mids = {},
+  error,
+}: SymbolPickerProps) {
+  const [query, setQuery] = useState("");
+
+  const matches = useMemo(() => {
+    const needle = query.trim().toUpperCase();
+    if (!needle) return [];
+    return markets
+      .filter(
+        (market) =>
+          market.coin.toUpperCase().includes(needle) ||
+          market.label.toUpperCase().includes(needle)
+      )
+      .sort(
+        (a, b) =>
+          Number(b.coin.toUpperCase().startsWith(needle)) -
+            Number(a.coin.toUpperCase().startsWith(needle)) ||
+          Number(a.kind === "spot") - Number(b.kind === "spot")
+      )
+      .slice(0, maxResults);
+  }, [markets, query]);
+
+  const toggle = (symbol: string) => {
+    const next = selected.includes(symbol)
+      ? selected.filter((s) => s !== symbol)
+      : [...selected, symbol];
+    // Keep at least one coin streaming.
+    if (next.length > 0) onChange?.(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>Symbols</span>
+        {selected.map((symbol) => (
+          <button
+            key={symbol}
+            type="button"
+            onClick={() => toggle(symbol)}
+            title="Remove"
+            className="rounded-full bg-white px-3 py-1 font-semibold text-slate-900"
+          >
+            {symbol} <span className="text-slate-500">{formatMid(mids[symbol])}</span>{" "}
+            ×
+          </button>
+        ))}
+      </div>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={
+          markets.length > 0 ? `Search ${markets.length} markets` : "Loading markets…"
+        }
+        className="rounded-full bg-white/10 px-3 py-1 text-white placeholder:text-white/40"
+      />
+      {matches.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto rounded-xl bg-white/5 p-1">
+          {matches.map((market) => {
+            const active = selected.includes(market.coin);
+            return (
+              <li key={market.coin}>
+                <button
+                  type="button"
+                  onClick={() => toggle(market.coin)}
+                  className={`flex w-full items-center justify-between rounded-lg px-2 py-1 text-left hover:bg-white/10 ${
+                    active ? "text-emerald-300" : "text-white/80"
+                  }`}
+                >
+                  <span>
+                    {market.label}
+                    {market.kind === "spot" && (
+                      <span className="pl-1 text-white/40">spot</span>
+                    )}
+                  </span>
+                  <span className="tabular-nums">{formatMid(mids[market.coin])}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {query && matches.length === 0 && (
+        <span className="text-white/50">{error ?? "No matching markets"}</span>
+      )}
+    </div>
+  );
+}
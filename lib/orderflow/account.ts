@@ -0,0 +1,90 @@
+import { Observable, filter, map, merge } from "rxjs";
+import {
+  AssetPosition,
+  ClearinghouseState,
+  getHyperliquidWebSocket,
+  HyperliquidWebSocket,
+  OpenOrder,
+  subscriptionKey,
+} from "./hyperliquid-websocket";
+
+// Account context for a watched wallet, read from the `clearinghouseState`
+// and `webData2` channels. Both carry the clearinghouse state; webData2 adds
+// open orders. Read-only, like the fills feed.
+
+export type AccountUpdate =
+  | {
+      type: "state";
+      /** `null` when a webData2 frame carried no clearinghouse state. */
+      state: ClearinghouseState | null;
+      openOrders?: OpenOrder[];
+    }
+  /** The exchange rejected one of the account subscriptions. */
+  | { type: "error"; message: string };
+
+export type AccountFeed = (address: string) => Observable<AccountUpdate>;
+
+/**
+ * Both account channels for `address` on `client` (the shared singleton by
+ * default), plus server errors naming either subscription.
+ */
+export function createHyperliquidAccountFeed(
+  client?: HyperliquidWebSocket
+): AccountFeed {
+  return (address) => {
+    const ws = client ?? getHyperliquidWebSocket();
+    const keys = new Set([
+      subscriptionKey({ type: "clearinghouseState", user: address }),
+      subscriptionKey({ type: "webData2", user: address }),
+    ]);
+    return merge(
+      ws
+        .clearinghouseState$(address)
+        .pipe(map((state): AccountUpdate => ({ type: "state", state }))),
+      ws.webData2$(address).pipe(
+        map(
+          (data): AccountUpdate => ({
+            type: "state",
+            state: data.clearinghouseState,
+            openOrders: data.openOrders,
+          })
+        )
+      ),
+      ws.serverErrors$.pipe(
+        filter(
+          (error) =>
+            error.subscriptionKey !== null && keys.has(error.subscriptionKey)
+        ),
+        map(
+          (error): AccountUpdate => ({ type: "error", message: error.message })
+        )
+      )
+    );
+  };
+}
+
+/** The position in `coin`, or `null` when flat or unknown. */
+export const positionFor = (
+  state: ClearinghouseState | null,
+  coin: string | null
+): AssetPosition | null =>
+  (coin && state?.positions.find((p) => p.coin === coin && p.size !== 0)) ||
+  null;
+
+/** How a position sits against the current aggression. */
+export type FlowBias = "with" | "against" | "neutral";
+
+/**
+ * "with" when the dominant side matches the position (buys for a long),
+ * "against" when it opposes it; shares within `deadband` of 0.5 are
+ * "neutral".
+ */
+export function positionFlowBias(
+  position: AssetPosition | null,
+  buyShare: number,
+  deadband = 0.05
+): FlowBias {
+  if (!position || Math.abs(buyShare - 0.5) < deadband) return "neutral";
+  const buysDominate = buyShare > 0.5;
+  return buysDominate === position.size > 0 ? "with" : "against";
+}
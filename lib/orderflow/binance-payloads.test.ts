@@ -0,0 +1,54 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseBinanceTrade } from "./binance-payloads";
+import { parseRecording } from "./session-replay";
+
+const fixture = (name: string) =>
+  parseRecording(
+    readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8")
+  ).map((frame) => parseBinanceTrade(JSON.parse(frame.data)));
+
+describe("parseBinanceTrade", () => {
+  it("parses recorded aggTrade frames, bare and combined-stream", () => {
+    const orders = fixture("binance-aggtrade.jsonl");
+    expect(orders).toHaveLength(5);
+
+    expect(orders[0]).toMatchObject({
+      id: "BTCUSDT-a3141592601",
+      side: "buy",
+      timestamp: 1760860800004,
+      price: 107398.01,
+      size: 0.0021,
+      source: "live",
+    });
+    expect(orders[0]?.volume).toBeCloseTo(107398.01 * 0.0021);
+    // `m: true`: the buyer was the maker, so the aggressor sold.
+    expect(orders[1]).toMatchObject({ id: "BTCUSDT-a3141592602", side: "sell" });
+    expect(orders[2]).toMatchObject({
+      id: "BTCUSDT-a3141592603",
+      side: "buy",
+      timestamp: 1760860800211,
+    });
+    // Other events on the same socket are not trades.
+    expect(orders[3]).toBeNull();
+    expect(orders[4]).toMatchObject({ side: "sell", size: 1 });
+  });
+
+  it("parses recorded trade frames and drops the malformed one", () => {
+    const orders = fixture("binance-trade.jsonl");
+    expect(orders.map((order) => order?.id ?? null)).toEqual([
+      "ETHUSDT-t2718281801",
+      "ETHUSDT-t2718281802",
+      null,
+      "ETHUSDT-t2718281804",
+    ]);
+    expect(orders.map((order) => order?.side ?? null)).toEqual([
+      "sell",
+      "buy",
+      null,
+      "sell",
+    ]);
+    expect(orders[1]?.timestamp).toBe(1760860800142);
+    expect(orders[1]?.volume).toBeCloseTo(3894.15 * 2.1);
+  });
+});
@@ -0,0 +1,83 @@
+import { OrderEvent } from "./types";
+
+// Binance spot trade stream messages (`<symbol>@aggTrade` / `<symbol>@trade`).
+// Prices and quantities arrive as decimal strings.
+
+export type BinanceAggTrade = {
+  e: "aggTrade";
+  /** Event time. */
+  E: number;
+  s: string;
+  /** Aggregate trade id. */
+  a: number;
+  p: string;
+  q: string;
+  /** First / last underlying trade id. */
+  f: number;
+  l: number;
+  /** Trade time. */
+  T: number;
+  /** Buyer is the maker, i.e. the aggressor sold. */
+  m: boolean;
+};
+
+export type BinanceTrade = {
+  e: "trade";
+  E: number;
+  s: string;
+  /** Trade id. */
+  t: number;
+  p: string;
+  q: string;
+  T: number;
+  m: boolean;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const toNumber = (value: unknown): number | null => {
+  const num = typeof value === "number" ? value : Number(value);
+  return typeof value !== "boolean" &&
+    value !== null &&
+    value !== "" &&
+    Number.isFinite(num)
+    ? num
+    : null;
+};
+
+/**
+ * Normalizes an `aggTrade` or `trade` message (bare, or wrapped in a
+ * combined-stream `{ stream, data }` envelope) into an OrderEvent.
+ * `m: true` means the resting buyer was the maker, so the taker sold.
+ * Returns null for other events or malformed fields.
+ */
+export function parseBinanceTrade(raw: unknown): OrderEvent | null {
+  const message = isRecord(raw) && isRecord(raw.data) ? raw.data : raw;
+  if (!isRecord(message)) return null;
+  if (message.e !== "aggTrade" && message.e !== "trade") return null;
+
+  const px = toNumber(message.p);
+  const qty = toNumber(message.q);
+  if (px === null || qty === null || typeof message.m !== "boolean") {
+    return null;
+  }
+  const tradeId = message.e === "aggTrade" ? message.a : message.t;
+  if (typeof tradeId !== "number" || typeof message.s !== "string") {
+    return null;
+  }
+  const time =
+    toNumber(message.T) ?? toNumber(message.E) ?? Date.now();
+
+  return {
+    // Aggregate and raw trade ids are separate sequences.
+    id: `${message.s}-${message.e === "aggTrade" ? "a" : "t"}${tradeId}`,
+    side: message.m ? "sell" : "buy",
+    volume: Math.max(0, px * qty),
+    timestamp: time,
+    price: px,
+    size: qty,
+    source: "live",
+    receivedAt: Date.now(),
+  };
+}
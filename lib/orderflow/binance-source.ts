@@ -0,0 +1,143 @@
+import { BehaviorSubject, Observable } from "rxjs";
+import { OrderEvent } from "./types";
+import { MarketDataSource, MarketDataStatusEvent } from "./market-data-source";
+import { parseBinanceTrade } from "./binance-payloads";
+
+export const BINANCE_WSS_URL = "wss://stream.binance.com:9443/ws";
+
+export type BinanceTradeStream = "aggTrade" | "trade";
+
+type BinanceSocket = Pick<
+  WebSocket,
+  "onopen" | "onmessage" | "onclose" | "onerror" | "close"
+>;
+export type BinanceSocketFactory = (url: string) => BinanceSocket;
+
+export type BinanceSourceOptions = {
+  /** Raw-stream base URL; the stream name is appended as a path segment. */
+  url?: string;
+  /** Quote asset appended to bare symbols ("BTC" -> "btcusdt"). */
+  quote?: string;
+  stream?: BinanceTradeStream;
+  /** Transport factory; swap in a replay or fake socket for offline use. */
+  createSocket?: BinanceSocketFactory;
+  reconnectBaseDelayMs?: number;
+  maxReconnectDelayMs?: number;
+};
+
+/** "BTC" -> "btcusdt@aggTrade"; symbols already carrying the quote are kept. */
+export function binanceStreamName(
+  symbol: string,
+  quote = "USDT",
+  stream: BinanceTradeStream = "aggTrade"
+): string {
+  const base = symbol.trim().toLowerCase();
+  const suffix = quote.toLowerCase();
+  const pair = base.endsWith(suffix) ? base : `${base}${suffix}`;
+  return `${pair}@${stream}`;
+}
+
+/**
+ * Binance spot trades as a `MarketDataSource`. Each `orders$` subscription
+ * owns one raw-stream socket and reconnects with exponential backoff until
+ * unsubscribed. Binance answers protocol pings itself, so no app heartbeat.
+ */
+export function createBinanceSource({
+  url = BINANCE_WSS_URL,
+  quote = "USDT",
+  stream = "aggTrade",
+  createSocket = (socketUrl) => new WebSocket(socketUrl),
+  reconnectBaseDelayMs = 1000,
+  maxReconnectDelayMs = 30000,
+}: BinanceSourceOptions = {}): MarketDataSource {
+  const status = new BehaviorSubject<MarketDataStatusEvent>({
+    status: "offline",
+  });
+  // Status is per source; it only reads "offline" once every stream closed.
+  let openStreams = 0;
+
+  const orders$ = (symbol: string) =>
+    new Observable<OrderEvent>((subscriber) => {
+      const coin = symbol.trim();
+      openStreams += 1;
+      const streamUrl = `${url.replace(/\/$/, "")}/${binanceStreamName(
+        symbol,
+        quote,
+        stream
+      )}`;
+      let socket: BinanceSocket | null = null;
+      let retryTimer: ReturnType<typeof setTimeout> | null = null;
+      let attempts = 0;
+      let closed = false;
+
+      const scheduleReconnect = () => {
+        attempts += 1;
+        const delay = Math.min(
+          reconnectBaseDelayMs * Math.pow(2, attempts - 1),
+          maxReconnectDelayMs
+        );
+        status.next({
+          status: "degraded",
+          error: `Reconnecting in ${Math.round(delay / 1000)}s`,
+          attempt: attempts,
+        });
+        retryTimer = setTimeout(open, delay);
+      };
+
+      function open() {
+        retryTimer = null;
+        if (attempts === 0) {
+          status.next({ status: "connecting" });
+        }
+        let ws: BinanceSocket;
+        try {
+          ws = createSocket(streamUrl);
+        } catch (err) {
+          console.error("binance socket failed to open", err);
+          scheduleReconnect();
+          return;
+        }
+        socket = ws;
+        ws.onopen = () => {
+          attempts = 0;
+          status.next({ status: "connected" });
+        };
+        ws.onmessage = (event: MessageEvent) => {
+          if (typeof event.data !== "string") return;
+          let raw: unknown;
+          try {
+            raw = JSON.parse(event.data);
+          } catch {
+            return;
+          }
+          const order = parseBinanceTrade(raw);
+          if (order) subscriber.next({ ...order, symbol: coin });
+        };
+        // onclose always follows onerror; reconnect from there.
+        ws.onerror = () => {};
+        ws.onclose = () => {
+          if (closed || socket !== ws) return;
+          socket = null;
+          scheduleReconnect();
+        };
+      }
+
+      open();
+
+      return () => {
+        closed = true;
+        if (retryTimer) clearTimeout(retryTimer);
+        socket?.close();
+        socket = null;
+        openStreams -= 1;
+        if (openStreams === 0) status.next({ status: "offline" });
+      };
+    });
+
+  return {
+    id: "binance",
+    label: "Binance",
+    orders$,
+    status$: status.asObservable(),
+  };
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  Clock,
+  clockTimer,
+  ManualClock,
+  PausedClock,
+  ScaledClock,
+} from "./clock";
+
+describe("ScaledClock", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000_000 });
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("advances speed clock ms per wall ms while started", () => {
+    const clock = new ScaledClock(5000, 20);
+    expect(clock.now()).toBe(5000);
+
+    clock.start();
+    vi.advanceTimersByTime(100);
+    expect(clock.now()).toBe(7000);
+
+    clock.setSpeed(2);
+    vi.advanceTimersByTime(100);
+    expect(clock.now()).toBe(7200);
+  });
+
+  it("holds still while paused and resumes from the same time", () => {
+    const clock = new ScaledClock(0, 10);
+    clock.start();
+    vi.advanceTimersByTime(50);
+    clock.pause();
+    expect(clock.now()).toBe(500);
+
+    vi.advanceTimersByTime(1000);
+    expect(clock.now()).toBe(500);
+
+    clock.start();
+    vi.advanceTimersByTime(10);
+    expect(clock.now()).toBe(600);
+  });
+
+  it("stops at endTime", () => {
+    const clock = new ScaledClock(0, 10, 1000);
+    clock.start();
+    vi.advanceTimersByTime(500);
+    expect(clock.now()).toBe(1000);
+  });
+
+  it("fires timers on clock time and not while paused", () => {
+    const clock = new ScaledClock(0, 4);
+    const fired: number[] = [];
+    clock.setTimeout(() => fired.push(clock.now()), 400);
+
+    clock.start();
+    vi.advanceTimersByTime(50);
+    clock.pause();
+    vi.advanceTimersByTime(1000);
+    expect(fired).toEqual([]);
+
+    clock.start();
+    vi.advanceTimersByTime(50);
+    expect(fired).toEqual([400]);
+  });
+});
+
+describe("PausedClock", () => {
+  it("never moves and never fires timers", () => {
+    const clock: Clock = new PausedClock(42);
+    const callback = vi.fn();
+    clock.setTimeout(callback, 0);
+    expect(clock.now()).toBe(42);
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
+
+describe("ManualClock", () => {
+  it("fires due clockTimers in order, reading each due time", () => {
+    const clock = new ManualClock(100);
+    const fired: [string, number][] = [];
+    const record = (label: string) => () => fired.push([label, clock.now()]);
+    clockTimer(clock, 30).subscribe(record("c"));
+    clockTimer(clock, 10).subscribe(record("a"));
+    clockTimer(clock, 20).subscribe(record("b"));
+
+    clock.advance(15);
+    expect(fired).toEqual([["a", 110]]);
+
+    clock.advance(100);
+    expect(fired).toEqual([
+      ["a", 110],
+      ["b", 120],
+      ["c", 130],
+    ]);
+    expect(clock.now()).toBe(215);
+  });
+
+  it("fires timers scheduled by a firing timer when they come due", () => {
+    const clock = new ManualClock(0);
+    const fired: number[] = [];
+    clock.setTimeout(() => {
+      fired.push(clock.now());
+      clock.setTimeout(() => fired.push(clock.now()), 5);
+    }, 10);
+
+    clock.set(100);
+    expect(fired).toEqual([10, 15]);
+  });
+
+  it("does not fire a cancelled clockTimer", () => {
+    const clock = new ManualClock(0);
+    const callback = vi.fn();
+    const subscription = clockTimer(clock, 10).subscribe(callback);
+    subscription.unsubscribe();
+
+    clock.advance(20);
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+import { Observable } from "rxjs";
+
+// Time source shared by the canvas, the rolling windows and the synthetic
+// stream. Live views run on wall time; replays run on a scaled trade-time
+// clock; tests step a manual clock so aggregation is deterministic.
+
+export interface Clock {
+  /** Current time on this clock's axis, ms since epoch. */
+  now(): number;
+  /**
+   * Runs `callback` once `delayMs` of clock time has passed. Returns a
+   * cancel function; cancelling after it fired is a no-op.
+   */
+  setTimeout(callback: () => void, delayMs: number): () => void;
+}
+
+/** Wall time: `Date.now()` and the global timer. */
+export class RealtimeClock implements Clock {
+  now() {
+    return Date.now();
+  }
+
+  setTimeout(callback: () => void, delayMs: number) {
+    const timer = setTimeout(callback, Math.max(0, delayMs));
+    return () => clearTimeout(timer);
+  }
+}
+
+export const realtimeClock: Clock = new RealtimeClock();
+
+/** Frozen at one instant; timers never fire. */
+export class PausedClock implements Clock {
+  constructor(private readonly at = Date.now()) {}
+
+  now() {
+    return this.at;
+  }
+
+  setTimeout() {
+    return () => {};
+  }
+}
+
+type PendingTimer = { id: number; due: number; callback: () => void };
+
+/** Timers keyed by due clock time, fired in due order. */
+class TimerQueue {
+  private timers: PendingTimer[] = [];
+  private nextId = 0;
+
+  add(due: number, callback: () => void): number {
+    const id = (this.nextId += 1);
+    let index = this.timers.length;
+    while (index > 0 && this.timers[index - 1].due > due) index -= 1;
+    this.timers.splice(index, 0, { id, due, callback });
+    return id;
+  }
+
+  remove(id: number) {
+    this.timers = this.timers.filter((timer) => timer.id !== id);
+  }
+
+  get nextDue(): number | null {
+    return this.timers[0]?.due ?? null;
+  }
+
+  /** Fires every timer due at `now`, including ones scheduled while firing. */
+  runDue(now: () => number) {
+    while (this.timers.length > 0 && this.timers[0].due <= now()) {
+      const timer = this.timers.shift();
+      timer?.callback();
+    }
+  }
+}
+
+/**
+ * Runs `speed` clock ms per wall ms from `startTime` while started, and
+ * holds still while paused. Never passes `endTime`. Used for playback:
+ * timers fire on trade time, so speed changes apply to pending timers too.
+ */
+export class ScaledClock implements Clock {
+  private anchorWall = 0;
+  private anchorTime: number;
+  private running = false;
+  private readonly timers = new TimerQueue();
+  private wallTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    startTime: number,
+    private rate = 1,
+    private readonly endTime = Infinity
+  ) {
+    this.anchorTime = startTime;
+  }
+
+  now(): number {
+    if (!this.running) return this.anchorTime;
+    const elapsed = (Date.now() - this.anchorWall) * this.rate;
+    return Math.min(this.endTime, this.anchorTime + elapsed);
+  }
+
+  get isRunning() {
+    return this.running;
+  }
+
+  get speed() {
+    return this.rate;
+  }
+
+  start() {
+    if (this.running) return;
+    this.anchorWall = Date.now();
+    this.running = true;
+    this.arm();
+  }
+
+  pause() {
+    this.anchorTime = this.now();
+    this.running = false;
+    this.arm();
+  }
+
+  setSpeed(speed: number) {
+    this.anchorTime = this.now();
+    this.anchorWall = Date.now();
+    this.rate = Math.max(0.01, speed);
+    this.arm();
+  }
+
+  setTimeout(callback: () => void, delayMs: number) {
+    const id = this.timers.add(this.now() + Math.max(0, delayMs), callback);
+    this.arm();
+    return () => {
+      this.timers.remove(id);
+      this.arm();
+    };
+  }
+
+  // One wall timer for the earliest pending clock timer.
+  private arm() {
+    if (this.wallTimer) clearTimeout(this.wallTimer);
+    this.wallTimer = null;
+    const due = this.timers.nextDue;
+    if (!this.running || due === null) return;
+    const wait = Math.max(0, (due - this.now()) / this.rate);
+    this.wallTimer = setTimeout(() => {
+      this.wallTimer = null;
+      this.timers.runDue(() => this.now());
+      this.arm();
+    }, wait);
+  }
+}
+
+/**
+ * Moves only when told to. `advance` fires every timer that comes due, in
+ * order, with `now()` reading each timer's due time while it runs.
+ */
+export class ManualClock implements Clock {
+  private readonly timers = new TimerQueue();
+  private current: number;
+
+  constructor(startTime = 0) {
+    this.current = startTime;
+  }
+
+  now() {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, delayMs: number) {
+    const id = this.timers.add(this.current + Math.max(0, delayMs), callback);
+    return () => this.timers.remove(id);
+  }
+
+  advance(ms: number) {
+    this.set(this.current + ms);
+  }
+
+  set(time: number) {
+    let due = this.timers.nextDue;
+    while (due !== null && due <= time) {
+      this.current = Math.max(this.current, due);
+      this.timers.runDue(() => this.current);
+      due = this.timers.nextDue;
+    }
+    this.current = Math.max(this.current, time);
+  }
+}
+
+/** `rxjs.timer` on a `Clock`: emits once after `delayMs` of clock time. */
+export function clockTimer(clock: Clock, delayMs: number): Observable<void> {
+  return new Observable<void>((subscriber) =>
+    clock.setTimeout(() => {
+      subscriber.next();
+      subscriber.complete();
+    }, delayMs)
+  );
+}
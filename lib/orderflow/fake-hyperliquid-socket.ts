@@ -0,0 +1,118 @@
+import {
+  HyperliquidSocket,
+  HyperliquidSocketFactory,
+} from "./hyperliquid-websocket";
+
+// Offline stand-in for the Hyperliquid endpoint: acks subscribe frames and
+// emits random `trades` frames for every subscribed coin. Used by the relay
+// route (`HYPERLIQUID_RELAY_UPSTREAM=fake`) and for local testing.
+
+type FakeSocketOptions = {
+  /** Delay between trade frames per coin. */
+  intervalMs?: number;
+  /** Starting price for every coin; each trade random-walks from it. */
+  basePrice?: number;
+};
+
+class FakeHyperliquidSocket implements HyperliquidSocket {
+  readyState = 0;
+  onopen: HyperliquidSocket["onopen"] = null;
+  onmessage: HyperliquidSocket["onmessage"] = null;
+  onclose: HyperliquidSocket["onclose"] = null;
+  onerror: HyperliquidSocket["onerror"] = null;
+
+  private readonly timers = new Map<string, ReturnType<typeof setInterval>>();
+  private readonly prices = new Map<string, number>();
+  private nextTid = 1;
+
+  constructor(
+    private readonly intervalMs: number,
+    private readonly basePrice: number
+  ) {
+    setTimeout(() => {
+      if (this.readyState !== 0) return;
+      this.readyState = 1;
+      this.onopen?.call(this as unknown as WebSocket, new Event("open"));
+    }, 0);
+  }
+
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+    if (typeof data !== "string" || this.readyState !== 1) return;
+    let message: {
+      method?: string;
+      subscription?: { type?: string; coin?: string };
+    };
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+    if (message.method === "ping") {
+      this.emit({ channel: "pong" });
+      return;
+    }
+    const { subscription } = message;
+    if (subscription?.type !== "trades" || !subscription.coin) return;
+    const coin = subscription.coin;
+
+    if (message.method === "subscribe" && !this.timers.has(coin)) {
+      this.emit({ channel: "subscriptionResponse", data: message });
+      this.timers.set(
+        coin,
+        setInterval(() => this.emitTrade(coin), this.intervalMs)
+      );
+    } else if (message.method === "unsubscribe") {
+      clearInterval(this.timers.get(coin));
+      this.timers.delete(coin);
+      this.emit({ channel: "subscriptionResponse", data: message });
+    }
+  }
+
+  close() {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers.clear();
+    this.onclose?.call(
+      this as unknown as WebSocket,
+      // Plain object: `CloseEvent` is not a global outside browsers.
+      { code: 1000, reason: "fake closed", wasClean: true } as CloseEvent
+    );
+  }
+
+  private emitTrade(coin: string) {
+    const last = this.prices.get(coin) ?? this.basePrice;
+    const px = Math.max(0.01, last * (1 + (Math.random() - 0.5) * 0.001));
+    this.prices.set(coin, px);
+    const tid = this.nextTid++;
+    this.emit({
+      channel: "trades",
+      data: [
+        {
+          coin,
+          side: Math.random() < 0.5 ? "B" : "A",
+          px: px.toFixed(2),
+          sz: (Math.random() * 2).toFixed(4),
+          time: Date.now(),
+          hash: `0xfake${tid}`,
+          tid,
+        },
+      ],
+    });
+  }
+
+  private emit(payload: unknown) {
+    this.onmessage?.call(
+      this as unknown as WebSocket,
+      new MessageEvent("message", { data: JSON.stringify(payload) })
+    );
+  }
+}
+
+/** Transport factory for `HyperliquidWebSocket` that never touches the network. */
+export function createFakeHyperliquidSocketFactory({
+  intervalMs = 250,
+  basePrice = 100_000,
+}: FakeSocketOptions = {}): HyperliquidSocketFactory {
+  return () => new FakeHyperliquidSocket(Math.max(10, intervalMs), basePrice);
+}
@@ -0,0 +1,132 @@
+import {
+  HyperliquidMarket,
+  HyperliquidTrade,
+  parsePerpMeta,
+  parseSpotMeta,
+  parseTrade,
+} from "./hyperliquid-payloads";
+import {
+  HyperliquidNetwork,
+  resolveHyperliquidNetwork,
+} from "./hyperliquid-websocket";
+
+export const HYPERLIQUID_INFO_URLS: Record<HyperliquidNetwork, string> = {
+  mainnet: "https://api.hyperliquid.xyz/info",
+  testnet: "https://api.hyperliquid-testnet.xyz/info",
+};
+
+/**
+ * The slice of `fetch` the info client uses. Any stub returning a JSON body
+ * can stand in for the exchange.
+ */
+export type HyperliquidFetch = (
+  url: string,
+  init: {
+    method: "POST";
+    headers: Record<string, string>;
+    body: string;
+    signal?: AbortSignal;
+  }
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+export type HyperliquidInfoClientOptions = {
+  /** Explicit endpoint; wins over `network` (e.g. a local stub server). */
+  url?: string;
+  network?: HyperliquidNetwork;
+  fetch?: HyperliquidFetch;
+  timeoutMs?: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Resolves the endpoint from options, then `NEXT_PUBLIC_HYPERLIQUID_INFO_URL`,
+ * then the public URL for the selected network.
+ */
+export function resolveHyperliquidInfoUrl(
+  options: Pick<HyperliquidInfoClientOptions, "url" | "network"> = {}
+): string {
+  if (options.url) return options.url;
+  if (!options.network && process.env.NEXT_PUBLIC_HYPERLIQUID_INFO_URL) {
+    return process.env.NEXT_PUBLIC_HYPERLIQUID_INFO_URL;
+  }
+  return HYPERLIQUID_INFO_URLS[resolveHyperliquidNetwork(options.network)];
+}
+
+/** Thin client for the Hyperliquid `POST /info` endpoint. */
+export class HyperliquidInfoClient {
+  private readonly url: string;
+  private readonly fetchImpl: HyperliquidFetch | null;
+  private readonly timeoutMs: number;
+
+  constructor(options: HyperliquidInfoClientOptions = {}) {
+    this.url = resolveHyperliquidInfoUrl(options);
+    this.fetchImpl = options.fetch ?? null;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  // Most recent trades for a coin, oldest first. Malformed rows are skipped.
+  async recentTrades(coin: string): Promise<HyperliquidTrade[]> {
+    const response = await this.post({ type: "recentTrades", coin });
+    if (!Array.isArray(response)) {
+      throw new Error("Unexpected recentTrades response");
+    }
+    const trades: HyperliquidTrade[] = [];
+    for (const entry of response) {
+      const trade = parseTrade(entry, coin);
+      if (trade) trades.push(trade);
+    }
+    return trades.sort((a, b) => a.time - b.time);
+  }
+
+  // Perps first, then spot pairs. Either list may fail on its own (e.g. a
+  // stub that only serves `meta`); only both failing is an error.
+  async markets(): Promise<HyperliquidMarket[]> {
+    const [perps, spot] = await Promise.allSettled([
+      this.post({ type: "meta" }).then(parsePerpMeta),
+      this.post({ type: "spotMeta" }).then(parseSpotMeta),
+    ]);
+    const perpMarkets = perps.status === "fulfilled" ? perps.value : null;
+    const spotMarkets = spot.status === "fulfilled" ? spot.value : null;
+    if (!perpMarkets && !spotMarkets) {
+      throw perps.status === "rejected"
+        ? perps.reason
+        : new Error("Unexpected meta response");
+    }
+    return [...(perpMarkets ?? []), ...(spotMarkets ?? [])];
+  }
+
+  private async post(body: Record<string, unknown>): Promise<unknown> {
+    const fetchImpl: HyperliquidFetch =
+      this.fetchImpl ?? ((url, init) => fetch(url, init));
+    const controller =
+      typeof AbortController !== "undefined" ? new AbortController() : null;
+    const timeout = setTimeout(() => controller?.abort(), this.timeoutMs);
+    try {
+      const response = await fetchImpl(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: controller?.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Hyperliquid info request failed: ${response.status}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+let globalInfoClient: HyperliquidInfoClient | null = null;
+
+// Options only apply when the shared instance is first created.
+export function getHyperliquidInfoClient(
+  options?: HyperliquidInfoClientOptions
+): HyperliquidInfoClient {
+  if (!globalInfoClient) {
+    globalInfoClient = new HyperliquidInfoClient(options);
+  }
+  return globalInfoClient;
+}
@@ -0,0 +1,176 @@
+import {
+  EMPTY,
+  Observable,
+  catchError,
+  exhaustMap,
+  filter,
+  from,
+  map,
+  merge,
+  mergeMap,
+} from "rxjs";
+import { OrderEvent, OrderSide, OrderSource } from "./types";
+import { HyperliquidTrade } from "./hyperliquid-payloads";
+import { HyperliquidWebSocket } from "./hyperliquid-websocket";
+import { HyperliquidInfoClient } from "./hyperliquid-info";
+import { MarketDataStatusEvent } from "./market-data-source";
+
+/**
+ * `symbol` is the coin as the caller asked for it; orders carry that
+ * spelling (per the `MarketDataSource` contract) even when the frame spells
+ * the coin differently.
+ */
+export const tradeToOrderEvent = (
+  trade: HyperliquidTrade,
+  source: OrderSource = "live",
+  symbol: string = trade.coin
+): OrderEvent => {
+  const id =
+    trade.tid ??
+    `${trade.coin}-${trade.time}-${Math.random().toString(36).slice(2, 7)}`;
+  const normSide =
+    typeof trade.side === "string" ? trade.side.toLowerCase() : ("" as string);
+  const side: OrderSide = normSide.startsWith("b") ? "buy" : "sell";
+  const size = Number(trade.sz);
+  const px = Number(trade.px);
+  const notional = !Number.isNaN(size) && !Number.isNaN(px) ? size * px : size;
+  return {
+    id: String(id),
+    side,
+    volume: Math.max(0, notional),
+    timestamp: trade.time,
+    symbol,
+    price: Number.isNaN(px) ? undefined : px,
+    size: Number.isNaN(size) ? undefined : size,
+    source,
+    receivedAt: Date.now(),
+  };
+};
+
+/**
+ * Returns a predicate that passes each id once per symbol. Memory is
+ * bounded: past 500 ids the oldest are dropped, keeping the latest 400.
+ */
+export const createRecentIdFilter = () => {
+  let seen = new Set<string>();
+  return (order: OrderEvent) => {
+    const key = order.symbol ? `${order.symbol}:${order.id}` : order.id;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    if (seen.size > 500) {
+      seen = new Set(Array.from(seen).slice(-400));
+    }
+    return true;
+  };
+};
+
+type HyperliquidOrdersOptions = {
+  symbol: string;
+  /** Fetch `recentTrades` on start and after every reconnect. */
+  backfill: boolean;
+  infoClient: HyperliquidInfoClient;
+};
+
+/**
+ * Live trades for a symbol merged with REST backfill, as OrderEvents.
+ * Not deduped: backfill overlaps the live tape by design, so callers pipe
+ * this through `createRecentIdFilter()`.
+ */
+export function hyperliquidOrders$(
+  ws: HyperliquidWebSocket,
+  { symbol, backfill, infoClient }: HyperliquidOrdersOptions
+): Observable<OrderEvent> {
+  // status$ replays the current status, so this covers the initial
+  // connect as well as every reconnect.
+  const backfill$ = backfill
+    ? ws.status$.pipe(
+        filter(({ status }) => status === "connected"),
+        exhaustMap(() =>
+          from(infoClient.recentTrades(symbol)).pipe(
+            catchError((err) => {
+              console.warn("hyperliquid backfill error", err);
+              return EMPTY;
+            })
+          )
+        ),
+        mergeMap((trades) => from(trades)),
+        map((trade) => tradeToOrderEvent(trade, "backfill", symbol))
+      )
+    : EMPTY;
+
+  return merge(
+    ws
+      .trades$(symbol)
+      .pipe(map((trade) => tradeToOrderEvent(trade, "live", symbol))),
+    backfill$
+  );
+}
+
+const isOptional = (value: unknown, type: "string" | "number") =>
+  value === undefined || typeof value === type;
+
+const isOrderEvent = (value: unknown): value is OrderEvent => {
+  if (typeof value !== "object" || value === null) return false;
+  const order = value as Partial<OrderEvent>;
+  return (
+    typeof order.id === "string" &&
+    (order.side === "buy" || order.side === "sell") &&
+    typeof order.volume === "number" &&
+    typeof order.timestamp === "number" &&
+    isOptional(order.symbol, "string") &&
+    isOptional(order.price, "number") &&
+    isOptional(order.size, "number") &&
+    isOptional(order.source, "string") &&
+    isOptional(order.receivedAt, "number")
+  );
+};
+
+/**
+ * OrderEvents from the SSE relay route (`/api/hyperliquid/trades`).
+ * EventSource reconnects on its own; the relay replays recent orders on
+ * every join, so callers dedupe with `createRecentIdFilter()` as usual.
+ */
+export function hyperliquidRelayOrders$(
+  url: string,
+  onStatus?: (event: MarketDataStatusEvent) => void
+): Observable<OrderEvent> {
+  return new Observable<OrderEvent>((subscriber) => {
+    onStatus?.({ status: "connecting" });
+    const source = new EventSource(url);
+    let attempt = 0;
+    let closedByServer = false;
+    source.onopen = () => {
+      attempt = 0;
+      onStatus?.({ status: "connected" });
+    };
+    source.onmessage = (event: MessageEvent<string>) => {
+      try {
+        const order: unknown = JSON.parse(event.data);
+        // receivedAt was stamped on the server; restamp so latency includes the hop.
+        if (isOrderEvent(order)) {
+          subscriber.next({ ...order, receivedAt: Date.now() });
+        }
+      } catch {
+        // ignore malformed relay frames
+      }
+    };
+    source.onerror = () => {
+      // CLOSED means the route refused the stream (e.g. bad symbol); anything
+      // else is a transient drop that EventSource retries itself.
+      if (source.readyState === EventSource.CLOSED) {
+        console.warn("hyperliquid relay stream closed", url);
+        closedByServer = true;
+        onStatus?.({ status: "offline", error: "Relay stream closed" });
+        subscriber.complete();
+      } else {
+        attempt += 1;
+        onStatus?.({ status: "degraded", error: "Relay reconnecting", attempt });
+      }
+    };
+    return () => {
+      source.close();
+      // Completing runs this too; keep the error reported just before.
+      if (!closedByServer) onStatus?.({ status: "offline" });
+    };
+  });
+}
@@ -0,0 +1,79 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseTrade, unwrapPayload } from "./hyperliquid-payloads";
+import { tradeToOrderEvent } from "./hyperliquid-orders";
+import { parseRecording } from "./session-replay";
+
+// The same steps as `subscribeToTrades`: unwrap the envelope, then parse
+// entry by entry so one bad trade does not cost the rest of the frame.
+const tradeFrames = () =>
+  parseRecording(
+    readFileSync(
+      new URL("./fixtures/hyperliquid-trades.jsonl", import.meta.url),
+      "utf8"
+    )
+  )
+    .map((frame) => JSON.parse(frame.data) as { channel?: string })
+    .filter((frame) => frame.channel === "trades")
+    .map((frame) => {
+      const payload = unwrapPayload(frame);
+      const entries = Array.isArray(payload) ? payload : [payload];
+      return entries.map((entry) => parseTrade(entry, "BTC"));
+    });
+
+describe("Hyperliquid trade parsing", () => {
+  it("parses every trade in the recorded frames", () => {
+    const frames = tradeFrames();
+    expect(frames.map((trades) => trades.length)).toEqual([1, 2, 1, 1]);
+
+    expect(frames[0][0]).toEqual({
+      coin: "BTC",
+      side: "B",
+      px: 107412,
+      sz: 0.01523,
+      time: 1760860800110,
+      tid: 482911370551201,
+    });
+    expect(frames[1].map((trade) => trade?.side)).toEqual(["S", "S"]);
+  });
+
+  it("drops the malformed trade without losing the rest", () => {
+    const frames = tradeFrames();
+    expect(frames[2]).toEqual([null]);
+    expect(frames[3][0]).toMatchObject({ px: 107415, sz: 1.25 });
+  });
+
+  it("normalizes parsed trades into order events", () => {
+    const orders = tradeFrames()
+      .flat()
+      .flatMap((trade) => (trade ? [tradeToOrderEvent(trade)] : []));
+
+    expect(orders.map((order) => order.id)).toEqual([
+      "482911370551201",
+      "482911370551202",
+      "482911370551203",
+      "482911370551205",
+    ]);
+    expect(orders.map((order) => order.side)).toEqual([
+      "buy",
+      "sell",
+      "sell",
+      "buy",
+    ]);
+    expect(orders[1]).toMatchObject({
+      symbol: "BTC",
+      timestamp: 1760860800371,
+      price: 107411,
+      size: 0.2,
+      source: "live",
+    });
+    expect(orders[1].volume).toBeCloseTo(107411 * 0.2);
+  });
+
+  it("tags orders with the coin as requested, not as the frame spells it", () => {
+    const [trade] = tradeFrames()[0];
+    if (!trade) throw new Error("fixture trade failed to parse");
+    expect(tradeToOrderEvent(trade, "live", "btc").symbol).toBe("btc");
+    expect(tradeToOrderEvent(trade).symbol).toBe("BTC");
+  });
+});
@@ -0,0 +1,666 @@
+// Wire shapes and validated domain models for Hyperliquid WebSocket channels.
+// Every parser returns `null` for frames it cannot trust so the caller can
+// drop and count them; numeric strings are converted once, here.
+
+export type HyperliquidTrade = {
+  coin: string;
+  side: "B" | "S" | "A" | "buy" | "sell";
+  px: number;
+  sz: number;
+  time: number;
+  tid?: string | number;
+};
+
+export type L2Level = {
+  px: number;
+  sz: number;
+  n: number;
+};
+
+export type L2BookSnapshot = {
+  coin: string;
+  time: number;
+  bids: L2Level[];
+  asks: L2Level[];
+};
+
+export type Candle = {
+  coin: string;
+  interval: string;
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  trades: number;
+};
+
+/** Mid price per coin, keyed exactly as the exchange names the market. */
+export type MidsMap = Record<string, number>;
+
+export type UserFill = {
+  coin: string;
+  side: "B" | "S";
+  px: number;
+  sz: number;
+  time: number;
+  dir: string;
+  startPosition: number;
+  closedPnl: number;
+  fee: number;
+  feeToken?: string;
+  crossed: boolean;
+  oid: number;
+  tid: number;
+  hash: string;
+};
+
+export type UserFillsUpdate = {
+  user: string;
+  isSnapshot: boolean;
+  fills: UserFill[];
+};
+
+export type UserFunding = {
+  time: number;
+  coin: string;
+  usdc: number;
+  szi: number;
+  fundingRate: number;
+};
+
+export type UserLiquidation = {
+  lid: number;
+  liquidator: string;
+  liquidatedUser: string;
+  liquidatedNotional: number;
+  liquidatedAccountValue: number;
+};
+
+export type UserEvent =
+  | { type: "fills"; fills: UserFill[] }
+  | { type: "funding"; funding: UserFunding }
+  | { type: "liquidation"; liquidation: UserLiquidation }
+  | { type: "nonUserCancel"; cancels: { coin: string; oid: number }[] };
+
+export type UserOrderUpdate = {
+  coin: string;
+  side: "B" | "S";
+  limitPx: number;
+  sz: number;
+  origSz: number;
+  oid: number;
+  timestamp: number;
+  status: string;
+  statusTimestamp: number;
+};
+
+export type MarginSummary = {
+  accountValue: number;
+  totalNtlPos: number;
+  totalRawUsd: number;
+  totalMarginUsed: number;
+};
+
+export type AssetPosition = {
+  coin: string;
+  /** Signed size: positive long, negative short. */
+  size: number;
+  entryPx: number | null;
+  positionValue: number;
+  unrealizedPnl: number;
+  returnOnEquity: number;
+  liquidationPx: number | null;
+  leverage: { type: "cross" | "isolated"; value: number };
+  marginUsed: number;
+};
+
+export type ClearinghouseState = {
+  user: string | null;
+  time: number;
+  withdrawable: number;
+  marginSummary: MarginSummary;
+  crossMarginSummary: MarginSummary;
+  positions: AssetPosition[];
+};
+
+export type OpenOrder = {
+  coin: string;
+  side: "B" | "S";
+  limitPx: number;
+  sz: number;
+  oid: number;
+  timestamp: number;
+};
+
+export type WebData2 = {
+  user: string | null;
+  serverTime: number | null;
+  clearinghouseState: ClearinghouseState | null;
+  openOrders: OpenOrder[];
+};
+
+/** A tradable coin from `meta` (perps) or `spotMeta` (spot pairs). */
+export type HyperliquidMarket = {
+  /** Name used in subscriptions and `allMids`: "BTC", "PURR/USDC", "@107". */
+  coin: string;
+  /** Display name, e.g. "HYPE/USDC" for a non-canonical spot pair. */
+  label: string;
+  kind: "perp" | "spot";
+  szDecimals: number | null;
+};
+
+export type WsTrade = {
+  coin: string;
+  side: string;
+  px: string;
+  sz: string;
+  hash: string;
+  time: number;
+  tid: number;
+  users: [string, string];
+};
+
+type WsLevel = { px: string; sz: string; n: number };
+
+type WsBook = {
+  coin: string;
+  levels: [WsLevel[], WsLevel[]];
+  time: number;
+};
+
+type WsCandle = {
+  t: number;
+  T: number;
+  s: string;
+  i: string;
+  o: string;
+  c: string;
+  h: string;
+  l: string;
+  v: string;
+  n: number;
+};
+
+type WsFill = {
+  coin: string;
+  px: string;
+  sz: string;
+  side: string;
+  time: number;
+  startPosition: string;
+  dir: string;
+  closedPnl: string;
+  hash: string;
+  oid: number;
+  crossed: boolean;
+  fee: string;
+  tid: number;
+  feeToken?: string;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string" && value.trim().length > 0) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toNonEmptyString(value: unknown): string | null {
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+// Hyperliquid uses "B" (bid) and "A" (ask); older payloads spell it out.
+function normalizeSide(value: unknown): "B" | "S" {
+  const norm = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return norm.startsWith("b") ? "B" : "S";
+}
+
+/** Unwraps `{ channel, data }` envelopes; bare payloads pass through. */
+export function unwrapPayload(frame: unknown): unknown {
+  if (isRecord(frame) && "data" in frame && "channel" in frame) {
+    return frame.data;
+  }
+  return frame;
+}
+
+export function parseTrade(
+  raw: unknown,
+  fallbackCoin?: string
+): HyperliquidTrade | null {
+  if (!isRecord(raw)) return null;
+  const trade = raw as Partial<WsTrade> & { isBuy?: boolean };
+  const px = toNumber(trade.px);
+  const sz = toNumber(trade.sz);
+  if (px === null || sz === null) return null;
+  const coin = toNonEmptyString(trade.coin) ?? fallbackCoin;
+  if (!coin) return null;
+  const time =
+    typeof trade.time === "number" && trade.time > 0 ? trade.time : Date.now();
+  return {
+    coin,
+    side: trade.isBuy === true ? "B" : normalizeSide(trade.side),
+    px,
+    sz,
+    time,
+    tid: trade.tid ?? trade.hash,
+  };
+}
+
+function parseLevel(raw: unknown): L2Level | null {
+  if (!isRecord(raw)) return null;
+  const level = raw as Partial<WsLevel>;
+  const px = toNumber(level.px);
+  const sz = toNumber(level.sz);
+  if (px === null || sz === null) return null;
+  return { px, sz, n: toNumber(level.n) ?? 0 };
+}
+
+function parseLevels(raw: unknown): L2Level[] | null {
+  if (!Array.isArray(raw)) return null;
+  const levels: L2Level[] = [];
+  for (const entry of raw) {
+    const level = parseLevel(entry);
+    if (!level) return null;
+    levels.push(level);
+  }
+  return levels;
+}
+
+export function parseL2Book(raw: unknown): L2BookSnapshot | null {
+  if (!isRecord(raw)) return null;
+  const book = raw as Partial<WsBook>;
+  const coin = toNonEmptyString(book.coin);
+  if (!coin || !Array.isArray(book.levels) || book.levels.length !== 2) {
+    return null;
+  }
+  const bids = parseLevels(book.levels[0]);
+  const asks = parseLevels(book.levels[1]);
+  if (!bids || !asks) return null;
+  return { coin, time: toNumber(book.time) ?? Date.now(), bids, asks };
+}
+
+export function parseCandle(raw: unknown): Candle | null {
+  if (!isRecord(raw)) return null;
+  const candle = raw as Partial<WsCandle>;
+  const coin = toNonEmptyString(candle.s);
+  const interval = toNonEmptyString(candle.i);
+  const openTime = toNumber(candle.t);
+  const closeTime = toNumber(candle.T);
+  const open = toNumber(candle.o);
+  const high = toNumber(candle.h);
+  const low = toNumber(candle.l);
+  const close = toNumber(candle.c);
+  const volume = toNumber(candle.v);
+  if (
+    !coin ||
+    !interval ||
+    openTime === null ||
+    closeTime === null ||
+    open === null ||
+    high === null ||
+    low === null ||
+    close === null ||
+    volume === null
+  ) {
+    return null;
+  }
+  return {
+    coin,
+    interval,
+    openTime,
+    closeTime,
+    open,
+    high,
+    low,
+    close,
+    volume,
+    trades: toNumber(candle.n) ?? 0,
+  };
+}
+
+export function parseAllMids(raw: unknown): MidsMap | null {
+  if (!isRecord(raw) || !isRecord(raw.mids)) return null;
+  const mids: MidsMap = {};
+  for (const [coin, value] of Object.entries(raw.mids)) {
+    const mid = toNumber(value);
+    if (mid === null) return null;
+    mids[coin] = mid;
+  }
+  return mids;
+}
+
+export function parseUserFill(raw: unknown): UserFill | null {
+  if (!isRecord(raw)) return null;
+  const fill = raw as Partial<WsFill>;
+  const coin = toNonEmptyString(fill.coin);
+  const px = toNumber(fill.px);
+  const sz = toNumber(fill.sz);
+  const time = toNumber(fill.time);
+  const oid = toNumber(fill.oid);
+  const tid = toNumber(fill.tid);
+  if (
+    !coin ||
+    px === null ||
+    sz === null ||
+    time === null ||
+    oid === null ||
+    tid === null
+  ) {
+    return null;
+  }
+  return {
+    coin,
+    side: normalizeSide(fill.side),
+    px,
+    sz,
+    time,
+    dir: typeof fill.dir === "string" ? fill.dir : "",
+    startPosition: toNumber(fill.startPosition) ?? 0,
+    closedPnl: toNumber(fill.closedPnl) ?? 0,
+    fee: toNumber(fill.fee) ?? 0,
+    feeToken: toNonEmptyString(fill.feeToken) ?? undefined,
+    crossed: fill.crossed === true,
+    oid,
+    tid,
+    hash: typeof fill.hash === "string" ? fill.hash : "",
+  };
+}
+
+function parseFills(raw: unknown): UserFill[] | null {
+  if (!Array.isArray(raw)) return null;
+  const fills: UserFill[] = [];
+  for (const entry of raw) {
+    const fill = parseUserFill(entry);
+    if (!fill) return null;
+    fills.push(fill);
+  }
+  return fills;
+}
+
+export function parseUserFills(raw: unknown): UserFillsUpdate | null {
+  if (!isRecord(raw)) return null;
+  const user = toNonEmptyString(raw.user);
+  const fills = parseFills(raw.fills);
+  if (!user || !fills) return null;
+  return { user, isSnapshot: raw.isSnapshot === true, fills };
+}
+
+export function parseUserEvent(raw: unknown): UserEvent | null {
+  if (!isRecord(raw)) return null;
+  if ("fills" in raw) {
+    const fills = parseFills(raw.fills);
+    return fills ? { type: "fills", fills } : null;
+  }
+  if (isRecord(raw.funding)) {
+    const funding = raw.funding;
+    const coin = toNonEmptyString(funding.coin);
+    const time = toNumber(funding.time);
+    const usdc = toNumber(funding.usdc);
+    const szi = toNumber(funding.szi);
+    const fundingRate = toNumber(funding.fundingRate);
+    if (
+      !coin ||
+      time === null ||
+      usdc === null ||
+      szi === null ||
+      fundingRate === null
+    ) {
+      return null;
+    }
+    return { type: "funding", funding: { time, coin, usdc, szi, fundingRate } };
+  }
+  if (isRecord(raw.liquidation)) {
+    const liquidation = raw.liquidation;
+    const lid = toNumber(liquidation.lid);
+    const liquidatedNotional = toNumber(liquidation.liquidated_ntl_pos);
+    const liquidatedAccountValue = toNumber(
+      liquidation.liquidated_account_value
+    );
+    if (
+      lid === null ||
+      liquidatedNotional === null ||
+      liquidatedAccountValue === null
+    ) {
+      return null;
+    }
+    return {
+      type: "liquidation",
+      liquidation: {
+        lid,
+        liquidator: String(liquidation.liquidator ?? ""),
+        liquidatedUser: String(liquidation.liquidated_user ?? ""),
+        liquidatedNotional,
+        liquidatedAccountValue,
+      },
+    };
+  }
+  if (Array.isArray(raw.nonUserCancel)) {
+    const cancels: { coin: string; oid: number }[] = [];
+    for (const entry of raw.nonUserCancel) {
+      if (!isRecord(entry)) return null;
+      const coin = toNonEmptyString(entry.coin);
+      const oid = toNumber(entry.oid);
+      if (!coin || oid === null) return null;
+      cancels.push({ coin, oid });
+    }
+    return { type: "nonUserCancel", cancels };
+  }
+  return null;
+}
+
+function parseOpenOrder(raw: unknown): OpenOrder | null {
+  if (!isRecord(raw)) return null;
+  const coin = toNonEmptyString(raw.coin);
+  const limitPx = toNumber(raw.limitPx);
+  const sz = toNumber(raw.sz);
+  const oid = toNumber(raw.oid);
+  const timestamp = toNumber(raw.timestamp);
+  if (
+    !coin ||
+    limitPx === null ||
+    sz === null ||
+    oid === null ||
+    timestamp === null
+  ) {
+    return null;
+  }
+  return { coin, side: normalizeSide(raw.side), limitPx, sz, oid, timestamp };
+}
+
+export function parseUserOrderUpdates(raw: unknown): UserOrderUpdate[] | null {
+  if (!Array.isArray(raw)) return null;
+  const updates: UserOrderUpdate[] = [];
+  for (const entry of raw) {
+    if (!isRecord(entry)) return null;
+    const order = parseOpenOrder(entry.order);
+    const origSz = isRecord(entry.order) ? toNumber(entry.order.origSz) : null;
+    const status = toNonEmptyString(entry.status);
+    if (!order || !status) return null;
+    updates.push({
+      ...order,
+      origSz: origSz ?? order.sz,
+      status,
+      statusTimestamp: toNumber(entry.statusTimestamp) ?? order.timestamp,
+    });
+  }
+  return updates;
+}
+
+function parseMarginSummary(raw: unknown): MarginSummary | null {
+  if (!isRecord(raw)) return null;
+  const accountValue = toNumber(raw.accountValue);
+  const totalNtlPos = toNumber(raw.totalNtlPos);
+  const totalRawUsd = toNumber(raw.totalRawUsd);
+  const totalMarginUsed = toNumber(raw.totalMarginUsed);
+  if (
+    accountValue === null ||
+    totalNtlPos === null ||
+    totalRawUsd === null ||
+    totalMarginUsed === null
+  ) {
+    return null;
+  }
+  return { accountValue, totalNtlPos, totalRawUsd, totalMarginUsed };
+}
+
+function parseAssetPosition(raw: unknown): AssetPosition | null {
+  if (!isRecord(raw) || !isRecord(raw.position)) return null;
+  const position = raw.position;
+  const coin = toNonEmptyString(position.coin);
+  const size = toNumber(position.szi);
+  const positionValue = toNumber(position.positionValue);
+  const unrealizedPnl = toNumber(position.unrealizedPnl);
+  const leverage = isRecord(position.leverage) ? position.leverage : null;
+  const leverageValue = leverage ? toNumber(leverage.value) : null;
+  if (
+    !coin ||
+    size === null ||
+    positionValue === null ||
+    unrealizedPnl === null ||
+    leverageValue === null
+  ) {
+    return null;
+  }
+  return {
+    coin,
+    size,
+    entryPx: toNumber(position.entryPx),
+    positionValue,
+    unrealizedPnl,
+    returnOnEquity: toNumber(position.returnOnEquity) ?? 0,
+    liquidationPx: toNumber(position.liquidationPx),
+    leverage: {
+      type: leverage?.type === "isolated" ? "isolated" : "cross",
+      value: leverageValue,
+    },
+    marginUsed: toNumber(position.marginUsed) ?? 0,
+  };
+}
+
+/**
+ * Accepts the WS envelope (`{ user, clearinghouseState }`) as well as the
+ * bare state returned by the info endpoint.
+ */
+export function parseClearinghouseState(
+  raw: unknown
+): ClearinghouseState | null {
+  if (!isRecord(raw)) return null;
+  const state = isRecord(raw.clearinghouseState)
+    ? raw.clearinghouseState
+    : raw;
+  const marginSummary = parseMarginSummary(state.marginSummary);
+  if (!marginSummary || !Array.isArray(state.assetPositions)) return null;
+  const positions: AssetPosition[] = [];
+  for (const entry of state.assetPositions) {
+    const position = parseAssetPosition(entry);
+    if (!position) return null;
+    positions.push(position);
+  }
+  return {
+    user: toNonEmptyString(raw.user),
+    time: toNumber(state.time) ?? Date.now(),
+    withdrawable: toNumber(state.withdrawable) ?? 0,
+    marginSummary,
+    crossMarginSummary:
+      parseMarginSummary(state.crossMarginSummary) ?? marginSummary,
+    positions,
+  };
+}
+
+export function parseWebData2(raw: unknown): WebData2 | null {
+  if (!isRecord(raw)) return null;
+  let clearinghouseState: ClearinghouseState | null = null;
+  if (raw.clearinghouseState !== undefined) {
+    clearinghouseState = parseClearinghouseState(raw.clearinghouseState);
+    if (!clearinghouseState) return null;
+  }
+  const openOrders: OpenOrder[] = [];
+  if (Array.isArray(raw.openOrders)) {
+    for (const entry of raw.openOrders) {
+      const order = parseOpenOrder(entry);
+      if (!order) return null;
+      openOrders.push(order);
+    }
+  }
+  const user = toNonEmptyString(raw.user);
+  return {
+    user,
+    serverTime: toNumber(raw.serverTime),
+    clearinghouseState: clearinghouseState
+      ? { ...clearinghouseState, user: clearinghouseState.user ?? user }
+      : null,
+    openOrders,
+  };
+}
+
+/**
+ * Perp universe from an info `{ type: "meta" }` response; delisted coins
+ * are skipped.
+ */
+export function parsePerpMeta(raw: unknown): HyperliquidMarket[] | null {
+  if (!isRecord(raw) || !Array.isArray(raw.universe)) return null;
+  const markets: HyperliquidMarket[] = [];
+  for (const entry of raw.universe) {
+    if (!isRecord(entry) || entry.isDelisted === true) continue;
+    const name = toNonEmptyString(entry.name);
+    if (!name) continue;
+    markets.push({
+      coin: name,
+      label: name,
+      kind: "perp",
+      szDecimals: toNumber(entry.szDecimals),
+    });
+  }
+  return markets;
+}
+
+/**
+ * Spot pairs from a `{ type: "spotMeta" }` response. Canonical pairs trade
+ * under their name ("PURR/USDC"); the rest under `@<index>`, labelled with
+ * their token names.
+ */
+export function parseSpotMeta(raw: unknown): HyperliquidMarket[] | null {
+  if (
+    !isRecord(raw) ||
+    !Array.isArray(raw.universe) ||
+    !Array.isArray(raw.tokens)
+  ) {
+    return null;
+  }
+  const tokenNames = new Map<number, string>();
+  for (const token of raw.tokens) {
+    if (!isRecord(token)) continue;
+    const index = toNumber(token.index);
+    const name = toNonEmptyString(token.name);
+    if (index !== null && name) tokenNames.set(index, name);
+  }
+  const markets: HyperliquidMarket[] = [];
+  for (const entry of raw.universe) {
+    if (!isRecord(entry)) continue;
+    const index = toNumber(entry.index);
+    const name = toNonEmptyString(entry.name);
+    if (index === null || !name) continue;
+    const [base, quote] = Array.isArray(entry.tokens)
+      ? entry.tokens.map((token) => tokenNames.get(Number(token)))
+      : [];
+    const coin = entry.isCanonical === true ? name : `@${index}`;
+    markets.push({
+      coin,
+      label: base && quote ? `${base}/${quote}` : name,
+      kind: "spot",
+      szDecimals: null,
+    });
+  }
+  return markets;
+}
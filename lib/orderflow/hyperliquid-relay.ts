@@ -0,0 +1,128 @@
+import {
+  Observable,
+  ReplaySubject,
+  defer,
+  filter,
+  finalize,
+  share,
+} from "rxjs";
+import { OrderEvent } from "./types";
+import { HyperliquidWebSocket } from "./hyperliquid-websocket";
+import { HyperliquidInfoClient } from "./hyperliquid-info";
+import { createRecentIdFilter, hyperliquidOrders$ } from "./hyperliquid-orders";
+import { createFakeHyperliquidSocketFactory } from "./fake-hyperliquid-socket";
+
+// Server-side fan-out for the SSE relay route: one upstream socket per
+// symbol, shared by every connected browser.
+
+export type RelayUpstreamFactory = (symbol: string) => HyperliquidWebSocket;
+
+type HyperliquidRelayOptions = {
+  /** Builds the upstream client for a symbol; swap in a fake for offline use. */
+  createUpstream?: RelayUpstreamFactory;
+  /** Fetch `recentTrades` whenever an upstream (re)connects. */
+  backfill?: boolean;
+  infoClient?: HyperliquidInfoClient;
+  /** Orders replayed to a browser that joins an already running symbol. */
+  replayCount?: number;
+};
+
+/**
+ * Reads `HYPERLIQUID_RELAY_UPSTREAM`: "fake" streams random trades from an
+ * in-process socket (no network); anything else connects to Hyperliquid.
+ */
+export function resolveRelayUpstream(): "fake" | "hyperliquid" {
+  return typeof process !== "undefined" &&
+    process.env.HYPERLIQUID_RELAY_UPSTREAM === "fake"
+    ? "fake"
+    : "hyperliquid";
+}
+
+/**
+ * Whether the configured upstream can run here. The real one needs a
+ * global `WebSocket`, which Node only ships from 22 on.
+ */
+export function relayUpstreamAvailable(): boolean {
+  return (
+    resolveRelayUpstream() === "fake" || typeof WebSocket !== "undefined"
+  );
+}
+
+const defaultUpstreamFactory = (): RelayUpstreamFactory => {
+  const createSocket =
+    resolveRelayUpstream() === "fake"
+      ? createFakeHyperliquidSocketFactory()
+      : undefined;
+  // No tab visibility on the server; keep upstreams connected.
+  return () =>
+    new HyperliquidWebSocket({ createSocket, suspendWhenHiddenMs: false });
+};
+
+export class HyperliquidRelay {
+  private readonly createUpstream: RelayUpstreamFactory;
+  private readonly backfill: boolean;
+  private readonly infoClient: HyperliquidInfoClient;
+  private readonly replayCount: number;
+  private readonly feeds = new Map<string, Observable<OrderEvent>>();
+  private readonly upstreams = new Set<string>();
+
+  constructor(options: HyperliquidRelayOptions = {}) {
+    this.createUpstream = options.createUpstream ?? defaultUpstreamFactory();
+    this.backfill =
+      options.backfill ??
+      (!options.createUpstream && resolveRelayUpstream() === "hyperliquid");
+    this.infoClient = options.infoClient ?? new HyperliquidInfoClient();
+    this.replayCount = options.replayCount ?? 200;
+  }
+
+  /**
+   * Deduped orders for a symbol. The upstream opens with the first
+   * subscriber and closes with the last; late joiners get the most recent
+   * `replayCount` orders first so their window is not empty.
+   */
+  orders$(symbol: string): Observable<OrderEvent> {
+    // Not upper-cased: coins such as "kPEPE" are case-sensitive upstream.
+    const coin = symbol.trim();
+    const existing = this.feeds.get(coin);
+    if (existing) return existing;
+
+    const feed = defer(() => {
+      const client = this.createUpstream(coin);
+      this.upstreams.add(coin);
+      return hyperliquidOrders$(client, {
+        symbol: coin,
+        backfill: this.backfill,
+        infoClient: this.infoClient,
+      }).pipe(
+        filter(createRecentIdFilter()),
+        finalize(() => {
+          this.upstreams.delete(coin);
+          client.disconnect();
+        })
+      );
+    }).pipe(
+      share({
+        connector: () => new ReplaySubject<OrderEvent>(this.replayCount),
+        resetOnError: true,
+        resetOnComplete: true,
+        resetOnRefCountZero: true,
+      })
+    );
+    this.feeds.set(coin, feed);
+    return feed;
+  }
+
+  /** Symbols with an open upstream socket. */
+  activeSymbols(): string[] {
+    return Array.from(this.upstreams);
+  }
+}
+
+let relayInstance: HyperliquidRelay | null = null;
+
+export function getHyperliquidRelay(): HyperliquidRelay {
+  if (!relayInstance) {
+    relayInstance = new HyperliquidRelay();
+  }
+  return relayInstance;
+}
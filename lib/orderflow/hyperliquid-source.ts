@@ -0,0 +1,111 @@
+import { BehaviorSubject, Observable } from "rxjs";
+import { OrderEvent } from "./types";
+import {
+  combineStatuses,
+  MarketDataSource,
+  MarketDataStatusEvent,
+} from "./market-data-source";
+import {
+  getHyperliquidWebSocket,
+  HyperliquidWebSocket,
+} from "./hyperliquid-websocket";
+import {
+  getHyperliquidInfoClient,
+  HyperliquidInfoClient,
+} from "./hyperliquid-info";
+import { hyperliquidOrders$, hyperliquidRelayOrders$ } from "./hyperliquid-orders";
+
+/** "direct" opens a socket from the browser; "relay" reads the SSE route. */
+export type HyperliquidTransport = "direct" | "relay";
+
+export const DEFAULT_RELAY_URL = "/api/hyperliquid/trades";
+
+export type HyperliquidSourceOptions = {
+  /** Client to read from; defaults to the shared singleton. */
+  client?: HyperliquidWebSocket;
+  /** Fetch `recentTrades` on start and after every reconnect. */
+  backfill?: boolean;
+  /** Info endpoint client used for backfill; swap in a stub for offline use. */
+  infoClient?: HyperliquidInfoClient;
+  transport?: HyperliquidTransport;
+  /** Relay endpoint; `?symbol=` is appended. Relay transport only. */
+  relayUrl?: string;
+};
+
+/**
+ * Hyperliquid as a `MarketDataSource`. Trade normalization (tid fallback,
+ * `b*` sides, size×price notional) lives in `tradeToOrderEvent`. With the
+ * relay transport, the socket and backfill run on the server and the
+ * client/infoClient/backfill options are ignored.
+ */
+export function createHyperliquidSource({
+  client,
+  backfill = true,
+  infoClient,
+  transport = "direct",
+  relayUrl = DEFAULT_RELAY_URL,
+}: HyperliquidSourceOptions = {}): MarketDataSource {
+  if (transport === "relay") {
+    const status = new BehaviorSubject<MarketDataStatusEvent>({
+      status: "offline",
+    });
+    // One EventSource per coin, each with its own status; closing one must
+    // not read as offline while the others still stream.
+    const streams = new Map<number, MarketDataStatusEvent>();
+    let nextStream = 0;
+    const publish = () => status.next(combineStatuses(streams.values()));
+    return {
+      id: "hyperliquid",
+      label: "Hyperliquid (relay)",
+      orders$: (symbol) =>
+        new Observable<OrderEvent>((subscriber) => {
+          const stream = (nextStream += 1);
+          let open = true;
+          const subscription = hyperliquidRelayOrders$(
+            `${relayUrl}?symbol=${encodeURIComponent(symbol)}`,
+            (event) => {
+              // The teardown's own "offline" is not news; the stream is gone.
+              if (!open) return;
+              streams.set(stream, event);
+              publish();
+            }
+          ).subscribe({
+            // Not `subscribe(subscriber)`: that would run the EventSource
+            // teardown before `open` is cleared below.
+            next: (order) => subscriber.next(order),
+            error: (err) => subscriber.error(err),
+            complete: () => subscriber.complete(),
+          });
+          return () => {
+            open = false;
+            subscription.unsubscribe();
+            const last = streams.get(stream);
+            streams.delete(stream);
+            // A relay that gave up keeps its error once nothing else streams.
+            if (streams.size === 0 && last?.status === "offline" && last.error) {
+              status.next(last);
+            } else {
+              publish();
+            }
+          };
+        }),
+      status$: status.asObservable(),
+    };
+  }
+
+  // Resolved lazily so building a source never opens the singleton early.
+  const ws = () => client ?? getHyperliquidWebSocket();
+  return {
+    id: "hyperliquid",
+    label: "Hyperliquid",
+    orders$: (symbol) =>
+      hyperliquidOrders$(ws(), {
+        symbol,
+        backfill,
+        infoClient: infoClient ?? getHyperliquidInfoClient(),
+      }),
+    status$: new Observable<MarketDataStatusEvent>((subscriber) =>
+      ws().status$.subscribe(subscriber)
+    ),
+  };
+}
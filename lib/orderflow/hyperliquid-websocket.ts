@@ -1,14 +1,58 @@
-"use client";
+import { Observable } from "rxjs";
+import {
+  Candle,
+  ClearinghouseState,
+  HyperliquidTrade,
+  L2BookSnapshot,
+  MidsMap,
+  UserEvent,
+  UserFillsUpdate,
+  UserOrderUpdate,
+  WebData2,
+  parseAllMids,
+  parseCandle,
+  parseClearinghouseState,
+  parseL2Book,
+  parseTrade,
+  parseUserEvent,
+  parseUserFills,
+  parseUserOrderUpdates,
+  parseWebData2,
+  unwrapPayload,
+} from "./hyperliquid-payloads";
+
+export type {
+  AssetPosition,
+  Candle,
+  ClearinghouseState,
+  HyperliquidMarket,
+  HyperliquidTrade,
+  L2BookSnapshot,
+  L2Level,
+  MarginSummary,
+  MidsMap,
+  OpenOrder,
+  UserEvent,
+  UserFill,
+  UserFillsUpdate,
+  UserOrderUpdate,
+  WebData2,
+} from "./hyperliquid-payloads";
 
 export type HyperliquidWebSocketStatus =
   | "connecting"
   | "connected"
   | "degraded"
   | "offline";
-type StatusListener = (status: {
+export type HyperliquidStatusEvent = {
   status: HyperliquidWebSocketStatus;
   error?: string | null;
-}) => void;
+  /** Consecutive failed connects; 0 once connected. */
+  attempt?: number;
+};
+type StatusListener = (status: HyperliquidStatusEvent) => void;
+/** Raw inbound frame text plus its local receive time (ms since epoch). */
+export type RawFrameListener = (data: string, receivedAt: number) => void;
 
 type SubscriptionPayload = {
   method: "subscribe";
@@ -20,30 +64,115 @@ type SubscriptionPayload = {
   };
 };
 
+type SubscriptionListener = (value: unknown) => void;
+
+/**
+ * `pending` until the server acks the subscribe (or data arrives),
+ * `rejected` after an `error` frame naming it or once every retry timed out.
+ */
+export type HyperliquidSubscriptionState = "pending" | "active" | "rejected";
+
+export type HyperliquidSubscriptionInfo = {
+  key: string;
+  state: HyperliquidSubscriptionState;
+  error: string | null;
+  listeners: number;
+};
+
+/** An `error` channel frame, or a subscribe that was never acknowledged. */
+export type HyperliquidServerError = {
+  message: string;
+  /** Subscription the error refers to, when it could be identified. */
+  subscriptionKey: string | null;
+  receivedAt: number;
+};
+type ServerErrorListener = (error: HyperliquidServerError) => void;
+
+// One upstream channel shared by every listener registered under its key.
 type SubscriptionRecord = {
   key: string;
   payload: SubscriptionPayload;
-  callback: (data: unknown) => void;
+  parse: (payload: unknown) => unknown;
+  listeners: Set<SubscriptionListener>;
+  state: HyperliquidSubscriptionState;
+  error: string | null;
+  /** Subscribe frames sent since the last ack on this connection. */
+  attempts: number;
+  ackTimer: ReturnType<typeof setTimeout> | null;
+};
+
+/** Removes one listener; the channel closes once its last listener leaves. */
+export type HyperliquidUnsubscribe = () => void;
+
+export type HyperliquidNetwork = "mainnet" | "testnet";
+
+/**
+ * Minimal socket surface the client relies on. The browser `WebSocket`
+ * satisfies it; tests and mock servers can hand in any compatible object.
+ */
+export type HyperliquidSocket = Pick<
+  WebSocket,
+  "readyState" | "send" | "close" | "onopen" | "onmessage" | "onclose" | "onerror"
+>;
+
+export type HyperliquidSocketFactory = (url: string) => HyperliquidSocket;
+
+export type HyperliquidWebSocketOptions = {
+  /** Explicit endpoint; wins over `network` (e.g. a local mock server). */
+  url?: string;
+  /** Selects the public endpoint when no `url` is given. */
+  network?: HyperliquidNetwork;
+  /** Creates the underlying socket; defaults to the global `WebSocket`. */
+  createSocket?: HyperliquidSocketFactory;
+  /** How often a `ping` is sent while connected. */
+  heartbeatIntervalMs?: number;
+  /**
+   * Deadline for any inbound frame (trades, pongs, acks). A socket that stays
+   * silent longer is treated as half-open: it is force-closed and reconnected.
+   */
+  staleTimeoutMs?: number;
+  /** First reconnect delay; doubles per attempt up to `maxReconnectDelayMs`. */
+  reconnectBaseDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  /**
+   * Fraction of each backoff delay that is randomized (0 = deterministic,
+   * 1 = anywhere between 0 and the full delay) so clients don't reconnect
+   * in lockstep after an outage.
+   */
+  reconnectJitter?: number;
+  /**
+   * Give up after this many consecutive failed reconnects and settle in a
+   * terminal "offline" status. Unlimited when omitted.
+   */
+  maxReconnectAttempts?: number;
+  /**
+   * Close the socket after the tab has been hidden this long and reconnect
+   * (resubscribing everything) once it is visible again. `false` disables.
+   */
+  suspendWhenHiddenMs?: number | false;
+  /** How long to wait for a `subscriptionResponse` before resending. */
+  subscriptionAckTimeoutMs?: number;
+  /** Subscribe frames sent per connection before marking it rejected. */
+  maxSubscribeAttempts?: number;
 };
 
-export type HyperliquidTrade = {
-  coin: string;
-  side: "B" | "S" | "A" | "buy" | "sell";
-  px: number;
-  sz: number;
-  time: number;
-  tid?: string | number;
+export type HyperliquidLiveness = {
+  lastMessageAt: number | null;
+  lastPongAt: number | null;
 };
 
-type WsTrade = {
-  coin: string;
-  side: string;
-  px: string;
-  sz: string;
-  hash: string;
-  time: number;
-  tid: number;
-  users: [string, string];
+export type HyperliquidDiagnostics = {
+  /** Frames (or individual trades) that failed validation, per channel. */
+  malformedFrames: Record<string, number>;
+  /** Frames with no matching subscription, per channel. */
+  unroutableFrames: Record<string, number>;
+  /** Endpoint this client connects to. */
+  url: string;
+  /** Socket opens attempted, and how many of them connected. */
+  connectAttempts: number;
+  connects: number;
+  /** Local time of the latest successful open; null before the first. */
+  lastConnectedAt: number | null;
 };
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -51,30 +180,160 @@ function isRecord(value: unknown): value is Record<string, unknown> {
 }
 
 // WebSocket implementation adapted from hyperliquid-turnkey
-const HYPERLIQUID_WSS_URL = "wss://api.hyperliquid.xyz/ws";
-let dropNoticeCount = 0;
-const MAX_DROP_LOGS = 5;
+export const HYPERLIQUID_WSS_URLS: Record<HyperliquidNetwork, string> = {
+  mainnet: "wss://api.hyperliquid.xyz/ws",
+  testnet: "wss://api.hyperliquid-testnet.xyz/ws",
+};
+// `WebSocket.OPEN`, inlined so injected transports work without the DOM global.
+const SOCKET_OPEN = 1;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30000;
+const DEFAULT_STALE_TIMEOUT_MS = 45000;
+const DEFAULT_RECONNECT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+const DEFAULT_RECONNECT_JITTER = 0.5;
+const DEFAULT_SUSPEND_WHEN_HIDDEN_MS = 60000;
+const DEFAULT_SUBSCRIPTION_ACK_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_SUBSCRIBE_ATTEMPTS = 3;
+const CONNECT_TIMEOUT_MS = 15000;
+
+const isNetworkOffline = () =>
+  typeof navigator !== "undefined" && navigator.onLine === false;
+const isDocumentHidden = () =>
+  typeof document !== "undefined" && document.visibilityState === "hidden";
+
+/**
+ * Reads the network from `NEXT_PUBLIC_HYPERLIQUID_NETWORK`; anything other
+ * than "testnet" resolves to mainnet.
+ */
+export function resolveHyperliquidNetwork(
+  network?: HyperliquidNetwork
+): HyperliquidNetwork {
+  if (network) return network;
+  return process.env.NEXT_PUBLIC_HYPERLIQUID_NETWORK === "testnet"
+    ? "testnet"
+    : "mainnet";
+}
+
+/**
+ * Resolves the endpoint from options, then `NEXT_PUBLIC_HYPERLIQUID_WS_URL`,
+ * then the public URL for the selected network.
+ */
+export function resolveHyperliquidWsUrl(
+  options: Pick<HyperliquidWebSocketOptions, "url" | "network"> = {}
+): string {
+  if (options.url) return options.url;
+  if (!options.network && process.env.NEXT_PUBLIC_HYPERLIQUID_WS_URL) {
+    return process.env.NEXT_PUBLIC_HYPERLIQUID_WS_URL;
+  }
+  return HYPERLIQUID_WSS_URLS[resolveHyperliquidNetwork(options.network)];
+}
+
+const defaultSocketFactory: HyperliquidSocketFactory = (url) =>
+  new WebSocket(url);
+
+// Frame channels whose name differs from the subscription type.
+const CHANNEL_SUBSCRIPTION_TYPES: Record<string, string> = {
+  user: "userEvents",
+  orderUpdates: "userOrders",
+  mids: "allMids",
+};
+
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function normalizeCoin(coin: string): string {
+  const upper = coin.toUpperCase();
+  return upper.endsWith("-PERP") || upper.endsWith("-SPOT")
+    ? upper.slice(0, -5)
+    : upper;
+}
+
+/**
+ * Canonical key for a subscription, e.g. `trades:BTC`, `candle:ETH:1m` or
+ * `userFills:0xabc…`. Frames are routed by rebuilding the same key.
+ */
+export function subscriptionKey(
+  subscription: SubscriptionPayload["subscription"]
+): string {
+  const parts = [subscription.type];
+  if (subscription.coin) parts.push(normalizeCoin(subscription.coin));
+  if (subscription.interval) parts.push(subscription.interval);
+  if (subscription.user) parts.push(subscription.user.toLowerCase());
+  return parts.join(":");
+}
 
 export class HyperliquidWebSocket {
-  private ws: WebSocket | null = null;
+  private ws: HyperliquidSocket | null = null;
   private reconnectAttempts = 0;
-  private reconnectDelay = 1000;
-  private maxReconnectDelay = 30000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private subscriptions = new Map<string, SubscriptionRecord>();
   private isConnected = false;
   private connectPromise: Promise<void> | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
-  private manualDisconnect = false;
+  private watchdogInterval: NodeJS.Timeout | null = null;
+  private lastMessageAt: number | null = null;
+  private lastPongAt: number | null = null;
+  private malformedFrames = new Map<string, number>();
+  private unroutableFrames = new Map<string, number>();
+  private connectAttempts = 0;
+  private connects = 0;
+  private lastConnectedAt: number | null = null;
+  // Subscription type -> keys, for frames that carry no coin/user.
+  private channelIndex = new Map<string, Set<string>>();
+  private abortPendingConnect: ((reason: string) => void) | null = null;
+  // True between connect() and disconnect(): the caller wants a live socket.
+  private active = false;
+  // Socket closed on purpose (hidden tab / network offline), not a failure.
+  private suspended = false;
+  private hiddenTimer: ReturnType<typeof setTimeout> | null = null;
+  private detachEnvironment: (() => void) | null = null;
   private statusListeners: Set<StatusListener> = new Set();
-
-  constructor() {}
+  private rawFrameListeners: Set<RawFrameListener> = new Set();
+  private serverErrorListeners: Set<ServerErrorListener> = new Set();
+  private readonly url: string;
+  private readonly createSocket: HyperliquidSocketFactory;
+  private readonly heartbeatIntervalMs: number;
+  private readonly staleTimeoutMs: number;
+  private readonly reconnectBaseDelayMs: number;
+  private readonly maxReconnectDelayMs: number;
+  private readonly reconnectJitter: number;
+  private readonly maxReconnectAttempts: number | null;
+  private readonly suspendWhenHiddenMs: number | false;
+  private readonly subscriptionAckTimeoutMs: number;
+  private readonly maxSubscribeAttempts: number;
+
+  constructor(options: HyperliquidWebSocketOptions = {}) {
+    this.url = resolveHyperliquidWsUrl(options);
+    this.createSocket = options.createSocket ?? defaultSocketFactory;
+    this.heartbeatIntervalMs =
+      options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+    this.staleTimeoutMs = options.staleTimeoutMs ?? DEFAULT_STALE_TIMEOUT_MS;
+    this.reconnectBaseDelayMs =
+      options.reconnectBaseDelayMs ?? DEFAULT_RECONNECT_BASE_DELAY_MS;
+    this.maxReconnectDelayMs =
+      options.maxReconnectDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS;
+    this.reconnectJitter = Math.min(
+      1,
+      Math.max(0, options.reconnectJitter ?? DEFAULT_RECONNECT_JITTER)
+    );
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? null;
+    this.suspendWhenHiddenMs =
+      options.suspendWhenHiddenMs ?? DEFAULT_SUSPEND_WHEN_HIDDEN_MS;
+    this.subscriptionAckTimeoutMs =
+      options.subscriptionAckTimeoutMs ?? DEFAULT_SUBSCRIPTION_ACK_TIMEOUT_MS;
+    this.maxSubscribeAttempts = Math.max(
+      1,
+      options.maxSubscribeAttempts ?? DEFAULT_MAX_SUBSCRIBE_ATTEMPTS
+    );
+  }
 
   private notifyStatus(
     status: HyperliquidWebSocketStatus,
     error?: string | null
   ) {
     for (const listener of this.statusListeners) {
-      listener({ status, error: error ?? null });
+      listener({ status, error: error ?? null, attempt: this.reconnectAttempts });
     }
   }
 
@@ -83,51 +342,100 @@ export class HyperliquidWebSocket {
     listener({
       status: this.isConnected ? "connected" : "offline",
       error: null,
+      attempt: this.reconnectAttempts,
     });
     return () => {
       this.statusListeners.delete(listener);
     };
   }
 
+  // Server `error` frames and unacknowledged subscribes, e.g. a typo'd coin.
+  onServerError(listener: ServerErrorListener): () => void {
+    this.serverErrorListeners.add(listener);
+    return () => {
+      this.serverErrorListeners.delete(listener);
+    };
+  }
+
+  // Taps every inbound frame before parsing, e.g. for session recording.
+  onRawFrame(listener: RawFrameListener): () => void {
+    this.rawFrameListeners.add(listener);
+    return () => {
+      this.rawFrameListeners.delete(listener);
+    };
+  }
+
   connect(): Promise<void> {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+    this.active = true;
+    this.suspended = false;
+    this.attachEnvironment();
+    if (this.ws && this.ws.readyState === SOCKET_OPEN) {
       return Promise.resolve();
     }
     if (this.connectPromise) {
       return this.connectPromise;
     }
+    this.cancelReconnect();
 
     this.connectPromise = new Promise((resolve, reject) => {
-      const url = HYPERLIQUID_WSS_URL;
+      const url = this.url;
       let resolved = false;
 
+      const settle = (error?: Error) => {
+        if (resolved) return false;
+        resolved = true;
+        clearTimeout(timeout);
+        this.abortPendingConnect = null;
+        if (error) reject(error);
+        else resolve();
+        return true;
+      };
+      this.abortPendingConnect = (reason) => settle(new Error(reason));
+
       const timeout = setTimeout(() => {
-        if (!resolved) {
-          resolved = true;
-          console.error("WebSocket connection timeout");
-          reject(new Error("WebSocket connection timeout"));
+        console.error("WebSocket connection timeout");
+        if (settle(new Error("WebSocket connection timeout"))) {
+          this.forceReconnect("connection timeout");
         }
-      }, 15000);
+      }, CONNECT_TIMEOUT_MS);
 
-      console.log("Attempting WebSocket connection to:", url);
+      this.connectAttempts += 1;
       this.notifyStatus("connecting");
-      this.ws = new WebSocket(url);
+      let socket: HyperliquidSocket;
+      try {
+        socket = this.createSocket(url);
+      } catch (error) {
+        // E.g. no global WebSocket (Node before 22) or a malformed URL.
+        // Retrying would fail the same way, so report it and stay down.
+        const message = error instanceof Error ? error.message : String(error);
+        this.connectPromise = null;
+        this.notifyStatus("offline", `Cannot open WebSocket: ${message}`);
+        settle(new Error(message));
+        return;
+      }
+      this.ws = socket;
 
-      this.ws.onopen = () => {
+      socket.onopen = () => {
         if (resolved) return;
-        resolved = true;
-        clearTimeout(timeout);
-        console.log("Hyperliquid WebSocket connected to:", url);
+        this.connects += 1;
+        this.lastConnectedAt = Date.now();
         this.isConnected = true;
         this.reconnectAttempts = 0;
+        this.lastMessageAt = Date.now();
         this.notifyStatus("connected");
         this.startHeartbeat();
         this.resubscribeAll();
         this.connectPromise = null;
-        resolve();
+        settle();
       };
 
-      this.ws.onmessage = (event) => {
+      socket.onmessage = (event) => {
+        this.lastMessageAt = Date.now();
+        if (this.rawFrameListeners.size > 0 && typeof event.data === "string") {
+          for (const listener of this.rawFrameListeners) {
+            listener(event.data, this.lastMessageAt);
+          }
+        }
         try {
           const data = JSON.parse(event.data);
           this.handleMessage(data);
@@ -136,271 +444,115 @@ export class HyperliquidWebSocket {
         }
       };
 
-      this.ws.onclose = (event) => {
+      socket.onclose = (event) => {
+        // A newer socket may have replaced this one after an early error.
+        if (this.ws !== socket) return;
         console.warn(
           "Hyperliquid WebSocket disconnected",
           event.code,
           event.reason || ""
         );
-        const wasManual = this.manualDisconnect;
         this.isConnected = false;
         this.stopHeartbeat();
-        this.notifyStatus(
-          wasManual ? "offline" : "degraded",
-          event.reason || null
-        );
-        if (!wasManual) {
-          this.reconnectAttempts += 1;
-        }
-        const shouldReconnect = !wasManual;
-        this.manualDisconnect = false;
+        this.resetSubscriptionAcks();
+        this.reconnectAttempts += 1;
+        this.notifyStatus("degraded", event.reason || null);
         this.connectPromise = null;
-        if (!resolved) {
-          resolved = true;
-          clearTimeout(timeout);
-          reject(new Error(event.reason || "WebSocket closed before open"));
-          return;
-        }
-        if (shouldReconnect) {
-          this.handleReconnect();
-        }
+        this.ws = null;
+        settle(new Error(event.reason || "WebSocket closed before open"));
+        // Failed attempts back off too, otherwise one refused connection
+        // would end the retry loop.
+        this.handleReconnect();
       };
 
-      this.ws.onerror = () => {
+      socket.onerror = () => {
         if (resolved) return;
-        resolved = true;
-        clearTimeout(timeout);
         console.warn("Hyperliquid WebSocket error for URL:", url);
         this.isConnected = false;
         this.notifyStatus("degraded", "socket error");
         this.connectPromise = null;
-        reject(new Error("WebSocket error"));
+        settle(new Error("WebSocket error"));
       };
     });
     return this.connectPromise;
   }
 
+  // Routing is a single map lookup: the frame's channel plus the coin,
+  // interval or user it carries rebuild the exact subscription key.
   private handleMessage(data: unknown) {
-    if (!data || typeof data !== "object") {
+    if (!isRecord(data)) {
       return;
     }
-
-    const rawType =
-      (data as { type?: string }).type ??
-      (data as { channel?: string }).channel ??
-      (isRecord((data as { data?: unknown }).data)
-        ? (data as { data?: { type?: string; channel?: string } }).data?.type ??
-          (data as { data?: { type?: string; channel?: string } }).data?.channel
-        : null);
-
-    if (typeof rawType !== "string" || rawType.length === 0) {
+    const channel =
+      typeof data.channel === "string"
+        ? data.channel
+        : typeof data.type === "string"
+          ? data.type
+          : null;
+    if (!channel) {
+      this.recordUnroutable("unknown");
+      return;
+    }
+    if (channel === "pong") {
+      this.lastPongAt = Date.now();
+      return;
+    }
+    if (channel === "subscriptionResponse") {
+      this.handleAck(data.data);
+      return;
+    }
+    if (channel === "error") {
+      this.handleServerError(data.data);
       return;
     }
 
-    const mapType = (value: string) => {
-      const compact = value.replace(/_/g, "").toLowerCase();
-      if (compact === "mids") {
-        return "allmids";
-      }
-      if (compact === "l2book") {
-        return "l2book";
-      }
-      return compact;
-    };
-
-    const extractSymbol = (node: unknown): string | null => {
-      if (!isRecord(node)) {
-        return null;
-      }
-      const raw =
-        (typeof node.coin === "string" && node.coin.length > 0
-          ? node.coin
-          : null) ??
-        (typeof node.s === "string" && node.s.length > 0 ? node.s : null);
-      if (raw) {
-        const upper = raw.toUpperCase();
-        return upper.endsWith("-PERP") || upper.endsWith("-SPOT")
-          ? upper.slice(0, -5)
-          : upper;
-      }
-      const inner = node.data;
-      if (inner && typeof inner === "object") {
-        return extractSymbol(inner);
-      }
-      if (Array.isArray(inner) && inner.length > 0) {
-        for (const entry of inner) {
-          const extracted = extractSymbol(entry);
-          if (extracted) return extracted;
-        }
-      }
-      return null;
-    };
-
-    const extractInterval = (node: unknown): string | null => {
-      if (!isRecord(node)) {
-        return null;
-      }
-      const raw =
-        (typeof node.interval === "string" && node.interval.length > 0
-          ? node.interval
-          : null) ??
-        (typeof (node as { i?: string }).i === "string" &&
-        (node as { i?: string }).i!.length > 0
-          ? (node as { i?: string }).i
-          : null);
-      if (raw) {
-        return raw;
-      }
-      const inner = node.data;
-      if (inner && typeof inner === "object") {
-        return extractInterval(inner);
-      }
-      if (Array.isArray(inner) && inner.length > 0) {
-        for (const entry of inner) {
-          const extracted = extractInterval(entry);
-          if (extracted) return extracted;
-        }
-      }
-      return null;
-    };
-
-    const normalizedType = mapType(rawType);
-
-    const matchesSubscription = (
-      node: unknown,
-      expectedCoin?: string | null,
-      expectedInterval?: string | null
-    ): boolean => {
-      const normCoin = (value: string | null | undefined) => {
-        if (!value) return null;
-        const upper = value.toUpperCase();
-        return upper.endsWith("-PERP") || upper.endsWith("-SPOT")
-          ? upper.slice(0, -5)
-          : upper;
-      };
-      const targetCoin = normCoin(expectedCoin ?? null);
-      const targetInterval = expectedInterval ?? null;
-
-      const visit = (value: unknown): boolean => {
-        if (Array.isArray(value)) {
-          return value.some((entry) => visit(entry));
-        }
-        if (!isRecord(value)) {
-          return false;
-        }
-
-        const coinCandidate = normCoin(
-          (typeof value.coin === "string" && value.coin) ||
-            (typeof value.s === "string" && value.s) ||
-            (typeof value.symbol === "string" && value.symbol) ||
-            null
-        );
-        const intervalCandidate =
-          (typeof value.interval === "string" && value.interval) ||
-          (typeof (value as { i?: string }).i === "string" &&
-            (value as { i?: string }).i) ||
-          null;
-
-        // If this node declares a coin/interval, they must match.
-        if (coinCandidate && targetCoin && coinCandidate !== targetCoin) {
-          return false;
-        }
-        if (
-          intervalCandidate &&
-          targetInterval &&
-          intervalCandidate !== targetInterval
-        ) {
-          return false;
-        }
-
-        // If both match (or are absent) and there are no children, accept.
-        const hasChildren = Array.isArray(value.data) || isRecord(value.data);
-        if (!hasChildren) {
-          const coinSatisfied = !targetCoin || coinCandidate === targetCoin;
-          const intervalSatisfied =
-            !targetInterval || intervalCandidate === targetInterval;
-          return coinSatisfied && intervalSatisfied;
-        }
-
-        // Otherwise, continue searching nested data.
-        return visit((value as { data?: unknown }).data);
-      };
-
-      if (!targetCoin && !targetInterval) {
-        return true;
-      }
-      return visit(node);
-    };
-
-    for (const subscription of this.subscriptions.values()) {
-      const subscriptionType = subscription.payload.subscription.type;
-      if (typeof subscriptionType !== "string") {
-        continue;
-      }
-      if (mapType(subscriptionType) !== normalizedType) continue;
-
-      const subscriptionUser = subscription.payload.subscription.user;
-      const messageUser = (data as { user?: string }).user;
-      if (subscriptionUser && messageUser && subscriptionUser !== messageUser)
-        continue;
-
-      const subscriptionCoin = subscription.payload.subscription.coin;
-      if (subscriptionCoin) {
-        const messageCoin = extractSymbol(data);
-        if (messageCoin) {
-          const normalize = (value: string) => {
-            const upper = value.toUpperCase();
-            if (upper.endsWith("-PERP") || upper.endsWith("-SPOT")) {
-              return upper.slice(0, -5);
-            }
-            return upper;
-          };
-          const normalizedMessage = normalize(messageCoin);
-          const normalizedSubscription = normalize(subscriptionCoin);
-          if (normalizedMessage !== normalizedSubscription) {
-            continue;
-          }
-        }
-      }
-
-      const subscriptionInterval = subscription.payload.subscription.interval;
-      if (subscriptionInterval) {
-        const messageInterval =
-          extractInterval(data) ??
-          (data as { interval?: string }).interval ??
-          (data as { data?: { interval?: string } }).data?.interval ??
-          null;
-        if (messageInterval && messageInterval !== subscriptionInterval) {
-          continue;
-        }
-      }
+    const record = this.route(channel, data.data);
+    if (!record) {
+      this.recordUnroutable(channel);
+      return;
+    }
+    this.dispatch(record, data);
+  }
 
-      if (!matchesSubscription(data, subscriptionCoin, subscriptionInterval)) {
-        if (dropNoticeCount < MAX_DROP_LOGS) {
-          dropNoticeCount += 1;
-          console.debug("[HyperliquidWS][drop]", {
-            subscription: subscription.payload.subscription,
-            message: {
-              channel: rawType,
-              coin: extractSymbol(data),
-              interval: extractInterval(data),
-              hasData: Boolean((data as { data?: unknown }).data),
-            },
-          });
-        }
-        continue;
+  private route(channel: string, payload: unknown): SubscriptionRecord | null {
+    const type = CHANNEL_SUBSCRIPTION_TYPES[channel] ?? channel;
+    // Batched frames (trades) only ever carry a single coin.
+    const head = Array.isArray(payload) ? payload[0] : payload;
+    const identity: SubscriptionPayload["subscription"] = { type };
+    if (isRecord(head)) {
+      identity.coin = nonEmptyString(head.coin) ?? nonEmptyString(head.s);
+      identity.interval =
+        nonEmptyString(head.interval) ?? nonEmptyString(head.i);
+      identity.user = nonEmptyString(head.user);
+    }
+    const exact = this.subscriptions.get(subscriptionKey(identity));
+    if (exact) {
+      return exact;
+    }
+    // Some user channels (userEvents, orderUpdates) omit the address; they
+    // are only routable while a single subscription of that type exists.
+    if (!identity.coin && !identity.interval && !identity.user) {
+      const keys = this.channelIndex.get(type);
+      if (keys && keys.size === 1) {
+        const [onlyKey] = keys;
+        return this.subscriptions.get(onlyKey) ?? null;
       }
-
-      subscription.callback(data);
     }
+    return null;
   }
 
   private startHeartbeat() {
+    this.stopHeartbeat();
     this.heartbeatInterval = setInterval(() => {
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      if (this.ws && this.ws.readyState === SOCKET_OPEN) {
         this.ws.send(JSON.stringify({ method: "ping" }));
       }
-    }, 30000); // Ping every 30 seconds
+    }, this.heartbeatIntervalMs);
+    // Check a few times per deadline so a stale socket is caught promptly.
+    this.watchdogInterval = setInterval(
+      () => this.checkStale(),
+      Math.max(1000, Math.floor(this.staleTimeoutMs / 3))
+    );
   }
 
   private stopHeartbeat() {
@@ -408,41 +560,198 @@ export class HyperliquidWebSocket {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
     }
+    if (this.watchdogInterval) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
+    }
+  }
+
+  private checkStale() {
+    if (!this.ws || !this.isConnected || this.lastMessageAt === null) {
+      return;
+    }
+    const silentMs = Date.now() - this.lastMessageAt;
+    if (silentMs < this.staleTimeoutMs) {
+      return;
+    }
+    const pongNote =
+      this.lastPongAt === null
+        ? "no pong received"
+        : `last pong ${Math.round((Date.now() - this.lastPongAt) / 1000)}s ago`;
+    this.forceReconnect(
+      `stale connection: no messages for ${Math.round(
+        silentMs / 1000
+      )}s (${pongNote})`
+    );
+  }
+
+  // Drops the current socket without triggering its close handlers.
+  private detachSocket(closeCode: number, closeReason: string) {
+    this.abortPendingConnect?.(closeReason);
+    const socket = this.ws;
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onclose = null;
+      socket.onerror = null;
+      try {
+        socket.close(closeCode, closeReason);
+      } catch (error) {
+        console.warn("Error closing WebSocket:", error);
+      }
+    }
+    this.ws = null;
+    this.isConnected = false;
+    this.connectPromise = null;
+    this.stopHeartbeat();
+    this.resetSubscriptionAcks();
+  }
+
+  // A half-open socket may never deliver `onclose`, so detach it and run the
+  // reconnect path directly instead of waiting for the close handshake.
+  private forceReconnect(reason: string) {
+    console.warn("Hyperliquid WebSocket forcing reconnect:", reason);
+    this.detachSocket(4000, "reconnecting");
+    this.reconnectAttempts += 1;
+    this.notifyStatus("degraded", reason);
+    this.handleReconnect();
   }
 
   private handleReconnect() {
+    this.cancelReconnect();
+    if (!this.active) {
+      return;
+    }
+    if (
+      this.maxReconnectAttempts !== null &&
+      this.reconnectAttempts > this.maxReconnectAttempts
+    ) {
+      const error = `Gave up after ${this.maxReconnectAttempts} reconnect attempts`;
+      console.error(error);
+      this.notifyStatus("offline", error);
+      return;
+    }
+    // Retrying is pointless while offline or hidden; the `online` and
+    // `visibilitychange` handlers pick things up again.
+    if (isNetworkOffline()) {
+      this.suspend("network offline");
+      return;
+    }
+    if (this.suspendWhenHiddenMs !== false && isDocumentHidden()) {
+      this.suspend("suspended while tab is hidden");
+      return;
+    }
+
     const attempt = Math.max(1, this.reconnectAttempts);
-    const delay = Math.min(
-      this.reconnectDelay * Math.pow(2, attempt - 1),
-      this.maxReconnectDelay
+    const ceiling = Math.min(
+      this.reconnectBaseDelayMs * Math.pow(2, attempt - 1),
+      this.maxReconnectDelayMs
+    );
+    const delay = Math.round(
+      ceiling * (1 - this.reconnectJitter * Math.random())
     );
 
     console.warn(`Reconnecting in ${delay}ms (attempt ${attempt})`);
 
-    setTimeout(() => {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       this.connect().catch(console.error);
     }, delay);
   }
 
+  private cancelReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  // Subscriptions stay registered, so resume() resubscribes everything.
+  private suspend(reason: string) {
+    this.cancelReconnect();
+    this.suspended = true;
+    this.detachSocket(1000, reason);
+    this.notifyStatus("offline", reason);
+  }
+
+  private resume() {
+    if (!this.active || this.isConnected || this.connectPromise) {
+      return;
+    }
+    this.reconnectAttempts = 0;
+    this.connect().catch(console.error);
+  }
+
+  private attachEnvironment() {
+    if (this.detachEnvironment) {
+      return;
+    }
+    const target =
+      typeof globalThis.addEventListener === "function" ? globalThis : null;
+    const onOnline = () => this.resume();
+    const onOffline = () => {
+      if (this.active) this.suspend("network offline");
+    };
+    const onVisibilityChange = () => {
+      if (this.hiddenTimer) {
+        clearTimeout(this.hiddenTimer);
+        this.hiddenTimer = null;
+      }
+      if (this.suspendWhenHiddenMs === false || !this.active) {
+        return;
+      }
+      if (isDocumentHidden()) {
+        const delay = this.suspendWhenHiddenMs;
+        this.hiddenTimer = setTimeout(() => {
+          this.hiddenTimer = null;
+          this.suspend("suspended while tab is hidden");
+        }, delay);
+      } else if (this.suspended || !this.isConnected) {
+        this.resume();
+      }
+    };
+
+    target?.addEventListener("online", onOnline);
+    target?.addEventListener("offline", onOffline);
+    if (typeof document !== "undefined") {
+      document.addEventListener("visibilitychange", onVisibilityChange);
+    }
+    this.detachEnvironment = () => {
+      target?.removeEventListener("online", onOnline);
+      target?.removeEventListener("offline", onOffline);
+      if (typeof document !== "undefined") {
+        document.removeEventListener("visibilitychange", onVisibilityChange);
+      }
+      if (this.hiddenTimer) {
+        clearTimeout(this.hiddenTimer);
+        this.hiddenTimer = null;
+      }
+    };
+  }
+
   // Subscribe to user fills for real-time updates
-  subscribeToUserFills(userAddress: string, callback: (data: unknown) => void) {
-    const subscriptionKey = `userFills:${userAddress}`;
-    this.addSubscription(
-      subscriptionKey,
+  subscribeToUserFills(
+    userAddress: string,
+    callback: (update: UserFillsUpdate) => void
+  ): HyperliquidUnsubscribe {
+    return this.addSubscription(
       {
         method: "subscribe",
         subscription: { type: "userFills", user: userAddress },
       },
+      parseUserFills,
       callback
     );
   }
 
   // Subscribe to L2 order book updates for a specific coin
-  subscribeToL2Book(coin: string, callback: (data: unknown) => void) {
-    const subscriptionKey = `l2Book:${coin}`;
-    this.addSubscription(
-      subscriptionKey,
+  subscribeToL2Book(
+    coin: string,
+    callback: (book: L2BookSnapshot) => void
+  ): HyperliquidUnsubscribe {
+    return this.addSubscription(
       { method: "subscribe", subscription: { type: "l2Book", coin } },
+      parseL2Book,
       callback
     );
   }
@@ -451,21 +760,22 @@ export class HyperliquidWebSocket {
   subscribeToCandle(
     coin: string,
     interval: string,
-    callback: (data: unknown) => void
-  ) {
-    const subscriptionKey = `candle:${coin}:${interval}`;
-    this.addSubscription(
-      subscriptionKey,
+    callback: (candle: Candle) => void
+  ): HyperliquidUnsubscribe {
+    return this.addSubscription(
       { method: "subscribe", subscription: { type: "candle", coin, interval } },
+      parseCandle,
       callback
     );
   }
 
   // Subscribe to all mids for price updates
-  subscribeToAllMids(callback: (data: unknown) => void) {
-    this.addSubscription(
-      "allMids",
+  subscribeToAllMids(
+    callback: (mids: MidsMap) => void
+  ): HyperliquidUnsubscribe {
+    return this.addSubscription(
       { method: "subscribe", subscription: { type: "allMids" } },
+      parseAllMids,
       callback
     );
   }
@@ -474,66 +784,41 @@ export class HyperliquidWebSocket {
   subscribeToTrades(
     coin: string,
     callback: (trade: HyperliquidTrade) => void
-  ): string {
-    const subscriptionKey = `trades:${coin}`;
-    this.addSubscription(
-      subscriptionKey,
+  ): HyperliquidUnsubscribe {
+    return this.addSubscription(
       { method: "subscribe", subscription: { type: "trades", coin } },
-      (data) => {
-        const payload = (data as { data?: unknown }).data ?? data;
-        const handleTrade = (trade: WsTrade) => {
-          if (!trade || typeof trade !== "object") return;
-          const rawSide = typeof trade.side === "string" ? trade.side : "";
-          const norm = rawSide.trim().toLowerCase();
-          const finalSide =
-            norm.startsWith("b") ||
-            (trade as { isBuy?: boolean }).isBuy === true
-              ? "B"
-              : "S";
-          const px = Number(trade.px);
-          const sz = Number(trade.sz);
-          const time =
-            typeof trade.time === "number" && trade.time > 0
-              ? trade.time
-              : Date.now();
-          if (Number.isNaN(px) || Number.isNaN(sz)) {
-            console.debug("[HL][drop-trade]", { trade });
-            return;
+      (payload) => {
+        if (!payload || typeof payload !== "object") return null;
+        // Bad entries are dropped one by one so a frame still delivers the rest.
+        const trades: HyperliquidTrade[] = [];
+        const entries = Array.isArray(payload) ? payload : [payload];
+        for (const entry of entries) {
+          const trade = parseTrade(entry, coin);
+          if (!trade) {
+            this.recordMalformed("trades");
+            continue;
           }
-          const parsed: HyperliquidTrade = {
-            coin: trade.coin || coin,
-            side: finalSide as "B" | "S",
-            px,
-            sz,
-            time,
-            tid: trade.tid ?? trade.hash,
-          };
-          console.log("[HL][trade]", parsed);
-          callback(parsed);
-        };
-
-        if (Array.isArray(payload)) {
-          payload.forEach((entry) => handleTrade(entry as WsTrade));
-        } else {
-          handleTrade(payload as WsTrade);
+          trades.push(trade);
         }
+        return trades;
+      },
+      (trades) => {
+        for (const trade of trades) callback(trade);
       }
     );
-    return subscriptionKey;
   }
 
-  // Subscribe to user orders for real-time order updates
+  // Subscribe to user order updates (Hyperliquid's `orderUpdates` payload)
   subscribeToUserOrders(
     userAddress: string,
-    callback: (data: unknown) => void
-  ) {
-    const subscriptionKey = `userOrders:${userAddress}`;
-    this.addSubscription(
-      subscriptionKey,
+    callback: (updates: UserOrderUpdate[]) => void
+  ): HyperliquidUnsubscribe {
+    return this.addSubscription(
       {
         method: "subscribe",
         subscription: { type: "userOrders", user: userAddress },
       },
+      parseUserOrderUpdates,
       callback
     );
   }
@@ -541,15 +826,14 @@ export class HyperliquidWebSocket {
   // Subscribe to user events for fills/position changes
   subscribeToUserEvents(
     userAddress: string,
-    callback: (data: unknown) => void
-  ) {
-    const subscriptionKey = `userEvents:${userAddress}`;
-    this.addSubscription(
-      subscriptionKey,
+    callback: (event: UserEvent) => void
+  ): HyperliquidUnsubscribe {
+    return this.addSubscription(
       {
         method: "subscribe",
         subscription: { type: "userEvents", user: userAddress },
       },
+      parseUserEvent,
       callback
     );
   }
@@ -557,36 +841,102 @@ export class HyperliquidWebSocket {
   // Subscribe to clearinghouse state for position updates
   subscribeToClearinghouseState(
     userAddress: string,
-    callback: (data: unknown) => void
-  ) {
-    const subscriptionKey = `clearinghouseState:${userAddress}`;
-    this.addSubscription(
-      subscriptionKey,
+    callback: (state: ClearinghouseState) => void
+  ): HyperliquidUnsubscribe {
+    return this.addSubscription(
       {
         method: "subscribe",
         subscription: { type: "clearinghouseState", user: userAddress },
       },
+      parseClearinghouseState,
       callback
     );
   }
 
   // Subscribe to aggregate frontend-friendly account data
-  subscribeToWebData2(userAddress: string, callback: (data: unknown) => void) {
-    const subscriptionKey = `webData2:${userAddress}`;
-    this.addSubscription(
-      subscriptionKey,
+  subscribeToWebData2(
+    userAddress: string,
+    callback: (data: WebData2) => void
+  ): HyperliquidUnsubscribe {
+    return this.addSubscription(
       {
         method: "subscribe",
         subscription: { type: "webData2", user: userAddress },
       },
+      parseWebData2,
       callback
     );
   }
 
-  // Unsubscribe from a specific subscription
+  // Cold Observables over the callback API: subscribing opens the channel
+  // (connecting if needed) and unsubscribing releases this listener only.
+  trades$(coin: string): Observable<HyperliquidTrade> {
+    return this.channel$((next) => this.subscribeToTrades(coin, next));
+  }
+
+  l2Book$(coin: string): Observable<L2BookSnapshot> {
+    return this.channel$((next) => this.subscribeToL2Book(coin, next));
+  }
+
+  candles$(coin: string, interval: string): Observable<Candle> {
+    return this.channel$((next) =>
+      this.subscribeToCandle(coin, interval, next)
+    );
+  }
+
+  mids$(): Observable<MidsMap> {
+    return this.channel$((next) => this.subscribeToAllMids(next));
+  }
+
+  userFills$(userAddress: string): Observable<UserFillsUpdate> {
+    return this.channel$((next) =>
+      this.subscribeToUserFills(userAddress, next)
+    );
+  }
+
+  clearinghouseState$(userAddress: string): Observable<ClearinghouseState> {
+    return this.channel$((next) =>
+      this.subscribeToClearinghouseState(userAddress, next)
+    );
+  }
+
+  webData2$(userAddress: string): Observable<WebData2> {
+    return this.channel$((next) =>
+      this.subscribeToWebData2(userAddress, next)
+    );
+  }
+
+  /** Current status on subscribe, then every transition. */
+  get status$(): Observable<HyperliquidStatusEvent> {
+    return new Observable<HyperliquidStatusEvent>((subscriber) =>
+      this.onStatusChange((status) => subscriber.next(status))
+    );
+  }
+
+  get serverErrors$(): Observable<HyperliquidServerError> {
+    return new Observable<HyperliquidServerError>((subscriber) =>
+      this.onServerError((error) => subscriber.next(error))
+    );
+  }
+
+  private channel$<T>(
+    subscribe: (next: (value: T) => void) => HyperliquidUnsubscribe
+  ): Observable<T> {
+    return new Observable<T>((subscriber) => {
+      const dispose = subscribe((value) => subscriber.next(value));
+      // Connection failures surface through status$; the channel stays
+      // registered and is resubscribed on the next successful open.
+      this.connect().catch(console.error);
+      return dispose;
+    });
+  }
+
+  // Tear down a channel for every listener; prefer the disposer returned by
+  // `subscribeTo*` so other listeners on the same key keep receiving data.
   unsubscribe(subscriptionKey: string) {
     const existing = this.subscriptions.get(subscriptionKey);
-    if (existing && this.ws && this.ws.readyState === WebSocket.OPEN) {
+    if (existing) this.clearAckTimer(existing);
+    if (existing && this.ws && this.ws.readyState === SOCKET_OPEN) {
       this.ws.send(
         JSON.stringify({
           method: "unsubscribe",
@@ -595,62 +945,305 @@ export class HyperliquidWebSocket {
       );
     }
     this.subscriptions.delete(subscriptionKey);
+    if (existing) {
+      const keys = this.channelIndex.get(existing.payload.subscription.type);
+      keys?.delete(subscriptionKey);
+      if (keys && keys.size === 0) {
+        this.channelIndex.delete(existing.payload.subscription.type);
+      }
+    }
+  }
+
+  /** Number of listeners sharing a channel key (0 when not subscribed). */
+  listenerCount(subscriptionKey: string): number {
+    return this.subscriptions.get(subscriptionKey)?.listeners.size ?? 0;
   }
 
   disconnect() {
-    this.stopHeartbeat();
-    this.manualDisconnect = true;
+    this.active = false;
+    this.suspended = false;
+    this.cancelReconnect();
+    this.detachEnvironment?.();
+    this.detachEnvironment = null;
+    this.subscriptions.forEach((record) => this.clearAckTimer(record));
     this.subscriptions.clear();
-    this.connectPromise = null;
+    this.channelIndex.clear();
+    this.detachSocket(1000, "client disconnect");
     this.notifyStatus("offline");
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.close();
-    }
-    this.ws = null;
-    this.isConnected = false;
   }
 
-  private addSubscription(
-    key: string,
+  // The first listener for a key opens the upstream channel; later ones just
+  // join the fan-out. The parser of the first listener is shared by all.
+  private addSubscription<T>(
     payload: SubscriptionPayload,
-    callback: (data: unknown) => void
-  ) {
-    this.subscriptions.set(key, { key, payload, callback });
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(payload));
+    parse: (payload: unknown) => T | null,
+    deliver: (value: T) => void
+  ): HyperliquidUnsubscribe {
+    const key = subscriptionKey(payload.subscription);
+    let record = this.subscriptions.get(key);
+    if (!record) {
+      record = {
+        key,
+        payload,
+        parse,
+        listeners: new Set(),
+        state: "pending",
+        error: null,
+        attempts: 0,
+        ackTimer: null,
+      };
+      this.subscriptions.set(key, record);
+      const type = payload.subscription.type;
+      const keys = this.channelIndex.get(type) ?? new Set<string>();
+      keys.add(key);
+      this.channelIndex.set(type, keys);
+      this.sendSubscribe(record);
+    }
+    // Wrap so the same callback registered twice still counts twice.
+    const listener: SubscriptionListener = (value) => deliver(value as T);
+    record.listeners.add(listener);
+
+    let disposed = false;
+    return () => {
+      if (disposed) return;
+      disposed = true;
+      this.removeListener(key, listener);
+    };
+  }
+
+  private removeListener(key: string, listener: SubscriptionListener) {
+    const record = this.subscriptions.get(key);
+    if (!record || !record.listeners.delete(listener)) {
+      return;
+    }
+    if (record.listeners.size === 0) {
+      this.unsubscribe(key);
+    }
+  }
+
+  // Frames are validated once per channel; anything `parse` rejects is
+  // counted against the channel and never reaches a listener.
+  private dispatch(record: SubscriptionRecord, data: unknown) {
+    // Data on a channel is as good as an ack (covers lost responses).
+    if (record.state !== "active") {
+      this.markActive(record);
+    }
+    const value = record.parse(unwrapPayload(data));
+    if (value === null) {
+      this.recordMalformed(record.payload.subscription.type);
+      return;
+    }
+    for (const listener of Array.from(record.listeners)) {
+      try {
+        listener(value);
+      } catch (error) {
+        console.error(`Error in ${record.key} listener:`, error);
+      }
     }
   }
 
+  private recordMalformed(channel: string) {
+    this.malformedFrames.set(
+      channel,
+      (this.malformedFrames.get(channel) ?? 0) + 1
+    );
+  }
+
+  private recordUnroutable(channel: string) {
+    this.unroutableFrames.set(
+      channel,
+      (this.unroutableFrames.get(channel) ?? 0) + 1
+    );
+  }
+
+  // Each connection gives every subscription, rejected ones included, a
+  // fresh set of attempts.
   private resubscribeAll() {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.ws || this.ws.readyState !== SOCKET_OPEN) {
+      return;
+    }
+    for (const record of this.subscriptions.values()) {
+      record.attempts = 0;
+      this.sendSubscribe(record);
+    }
+  }
+
+  // Sends (or resends) a subscribe and arms the ack timeout. A no-op while
+  // disconnected; `resubscribeAll` picks the record up on the next open.
+  private sendSubscribe(record: SubscriptionRecord) {
+    this.clearAckTimer(record);
+    if (!this.ws || this.ws.readyState !== SOCKET_OPEN) {
       return;
     }
-    for (const subscription of this.subscriptions.values()) {
-      this.ws.send(JSON.stringify(subscription.payload));
+    record.state = "pending";
+    record.attempts += 1;
+    this.ws.send(JSON.stringify(record.payload));
+    record.ackTimer = setTimeout(() => {
+      record.ackTimer = null;
+      if (this.subscriptions.get(record.key) !== record) return;
+      if (record.attempts < this.maxSubscribeAttempts) {
+        console.warn(`Hyperliquid ${record.key} not acknowledged, resending`);
+        this.sendSubscribe(record);
+        return;
+      }
+      this.reject(
+        record,
+        `No subscriptionResponse after ${record.attempts} attempts`
+      );
+    }, this.subscriptionAckTimeoutMs);
+  }
+
+  private clearAckTimer(record: SubscriptionRecord) {
+    if (record.ackTimer) {
+      clearTimeout(record.ackTimer);
+      record.ackTimer = null;
+    }
+  }
+
+  private resetSubscriptionAcks() {
+    for (const record of this.subscriptions.values()) {
+      this.clearAckTimer(record);
+      if (record.state === "active") record.state = "pending";
+    }
+  }
+
+  private markActive(record: SubscriptionRecord) {
+    this.clearAckTimer(record);
+    record.state = "active";
+    record.error = null;
+    record.attempts = 0;
+  }
+
+  private reject(record: SubscriptionRecord, message: string) {
+    this.clearAckTimer(record);
+    record.state = "rejected";
+    record.error = message;
+    this.emitServerError(message, record.key);
+  }
+
+  private handleAck(payload: unknown) {
+    if (!isRecord(payload) || payload.method !== "subscribe") {
+      return;
+    }
+    const subscription = payload.subscription;
+    if (!isRecord(subscription) || typeof subscription.type !== "string") {
+      return;
+    }
+    const record = this.subscriptions.get(
+      subscriptionKey(subscription as SubscriptionPayload["subscription"])
+    );
+    if (record) this.markActive(record);
+  }
+
+  // Error frames carry a bare string such as
+  // `Invalid subscription {"type":"trades","coin":"BTCC"}`; the embedded
+  // JSON, when present, identifies the subscription it refers to.
+  private handleServerError(payload: unknown) {
+    const message =
+      typeof payload === "string" ? payload : JSON.stringify(payload ?? null);
+    const record = this.findErroredSubscription(message);
+    if (record && /already subscribed/i.test(message)) {
+      this.markActive(record);
+      return;
+    }
+    console.warn("Hyperliquid server error:", message);
+    if (record) {
+      this.reject(record, message);
+    } else {
+      this.emitServerError(message, null);
+    }
+  }
+
+  private findErroredSubscription(message: string): SubscriptionRecord | null {
+    const start = message.indexOf("{");
+    if (start === -1) return null;
+    try {
+      const parsed: unknown = JSON.parse(message.slice(start));
+      const subscription =
+        isRecord(parsed) && isRecord(parsed.subscription)
+          ? parsed.subscription
+          : parsed;
+      if (!isRecord(subscription) || typeof subscription.type !== "string") {
+        return null;
+      }
+      return (
+        this.subscriptions.get(
+          subscriptionKey(subscription as SubscriptionPayload["subscription"])
+        ) ?? null
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  private emitServerError(message: string, key: string | null) {
+    const error: HyperliquidServerError = {
+      message,
+      subscriptionKey: key,
+      receivedAt: Date.now(),
+    };
+    for (const listener of Array.from(this.serverErrorListeners)) {
+      try {
+        listener(error);
+      } catch (err) {
+        console.error("Error in server error listener:", err);
+      }
     }
   }
 
   get connected() {
     return this.isConnected;
   }
+
+  getLiveness(): HyperliquidLiveness {
+    return { lastMessageAt: this.lastMessageAt, lastPongAt: this.lastPongAt };
+  }
+
+  /** Ack state of every open channel, e.g. for a health panel. */
+  getSubscriptions(): HyperliquidSubscriptionInfo[] {
+    return Array.from(this.subscriptions.values(), (record) => ({
+      key: record.key,
+      state: record.state,
+      error: record.error,
+      listeners: record.listeners.size,
+    }));
+  }
+
+  getDiagnostics(): HyperliquidDiagnostics {
+    return {
+      malformedFrames: Object.fromEntries(this.malformedFrames),
+      unroutableFrames: Object.fromEntries(this.unroutableFrames),
+      url: this.url,
+      connectAttempts: this.connectAttempts,
+      connects: this.connects,
+      lastConnectedAt: this.lastConnectedAt,
+    };
+  }
 }
 
 // Global WebSocket instance
 let globalWebSocket: HyperliquidWebSocket | null = null;
 
-export function getHyperliquidWebSocket(): HyperliquidWebSocket {
+// Options only apply when the shared instance is first created; the network
+// falls back to the NEXT_PUBLIC_HYPERLIQUID_* environment settings.
+export function getHyperliquidWebSocket(
+  options?: HyperliquidWebSocketOptions
+): HyperliquidWebSocket {
   if (!globalWebSocket) {
-    globalWebSocket = new HyperliquidWebSocket(); // Uses environment-derived testnet setting
+    globalWebSocket = new HyperliquidWebSocket(options);
   }
   return globalWebSocket;
 }
 
 // Diagnostic function to test WebSocket connectivity
-export async function testWebSocketConnection(): Promise<boolean> {
-  const url = HYPERLIQUID_WSS_URL;
+export async function testWebSocketConnection(
+  options: HyperliquidWebSocketOptions = {}
+): Promise<boolean> {
+  const url = resolveHyperliquidWsUrl(options);
+  const createSocket = options.createSocket ?? defaultSocketFactory;
   return new Promise((resolve) => {
     console.log("Testing WebSocket URL:", url);
-    const testWs = new WebSocket(url);
+    const testWs = createSocket(url);
 
     const timeout = setTimeout(() => {
       testWs.close();
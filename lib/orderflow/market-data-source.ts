@@ -0,0 +1,118 @@
+import { Observable } from "rxjs";
+import { OrderEvent } from "./types";
+
+// Venue-neutral contract between exchange adapters and the canvas: each
+// adapter owns its wire format and only hands out normalized OrderEvents.
+
+export type MarketDataStatus =
+  | "connecting"
+  | "connected"
+  | "degraded"
+  | "offline";
+
+export type MarketDataStatusEvent = {
+  status: MarketDataStatus;
+  error?: string | null;
+  /** Consecutive failed connects; 0 once connected. */
+  attempt?: number;
+};
+
+/** What a stream hook knows about its feed, for status badges. */
+export type StreamHealth = {
+  status: MarketDataStatus;
+  error: string | null;
+  attempt: number;
+  /** Local time the current status began. */
+  since: number;
+  /** Local time the latest trade arrived; null before the first. */
+  lastTradeAt: number | null;
+};
+
+export const idleStreamHealth: StreamHealth = {
+  status: "offline",
+  error: null,
+  attempt: 0,
+  since: 0,
+  lastTradeAt: null,
+};
+
+/** Connected but no trades for this long reads as a stale feed. */
+export const STALE_FEED_MS = 15_000;
+
+export type FeedState = "paused" | "connecting" | "live" | "stale" | "down";
+
+/** Feed summary published by the canvas for panels outside it. */
+export type FeedReport = {
+  state: FeedState;
+  /** Null for streams without a socket (synthetic, imported playback). */
+  health: StreamHealth | null;
+  lastTradeAgeMs: number | null;
+};
+
+/** "now", "42s", "3m". */
+export const formatFeedAge = (ms: number | null) => {
+  if (ms === null) return "–";
+  if (ms < 1000) return "now";
+  if (ms < 60_000) return `${Math.floor(ms / 1000)}s`;
+  return `${Math.floor(ms / 60_000)}m`;
+};
+
+const statusRank: Record<MarketDataStatus, number> = {
+  connected: 0,
+  connecting: 1,
+  degraded: 2,
+  offline: 3,
+};
+
+/**
+ * One status for several open connections (e.g. one per coin): the least
+ * healthy one wins. No connections at all reads as offline.
+ */
+export function combineStatuses(
+  events: Iterable<MarketDataStatusEvent>
+): MarketDataStatusEvent {
+  let combined: MarketDataStatusEvent | null = null;
+  for (const event of events) {
+    if (!combined || statusRank[event.status] > statusRank[combined.status]) {
+      combined = event;
+    }
+  }
+  return combined ?? { status: "offline" };
+}
+
+/**
+ * Collapses health into what a trader needs to see. A connected socket
+ * with no trades for `staleAfterMs` (counted from the last trade or the
+ * last status change, whichever is later) is "stale", so a silent socket
+ * never passes for a quiet market; degraded/offline while streaming is "down".
+ */
+export function classifyFeed(
+  health: StreamHealth,
+  now: number,
+  { streaming, staleAfterMs = STALE_FEED_MS }: {
+    streaming: boolean;
+    staleAfterMs?: number;
+  }
+): FeedState {
+  if (!streaming) return "paused";
+  if (health.status === "connecting") return "connecting";
+  if (health.status !== "connected") return "down";
+  const lastActivity = Math.max(health.lastTradeAt ?? 0, health.since);
+  return now - lastActivity > staleAfterMs ? "stale" : "live";
+}
+
+export interface MarketDataSource {
+  /** Stable identifier, e.g. "hyperliquid" or "binance". */
+  readonly id: string;
+  /** Human-readable venue name for controls and labels. */
+  readonly label: string;
+  /**
+   * Normalized orders for `symbol`, tagged with it (spelled as the caller
+   * passed it) in `OrderEvent.symbol`. Cold: connects on subscribe and releases the
+   * connection on unsubscribe. Not deduped; overlapping backfill is
+   * expected, so callers pipe through `createRecentIdFilter()`.
+   */
+  orders$(symbol: string): Observable<OrderEvent>;
+  /** Connection status; replays the current value to new subscribers. */
+  readonly status$: Observable<MarketDataStatusEvent>;
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import { ManualClock } from "./clock";
+import { OrderEvent, OrderSide } from "./types";
+import {
+  buyShareOf,
+  formatLookback,
+  OrderflowAggregator,
+} from "./orderflow-aggregator";
+
+let nextId = 0;
+const order = (
+  side: OrderSide,
+  volume: number,
+  timestamp: number,
+  symbol?: string
+): OrderEvent => ({ id: `o${(nextId += 1)}`, side, volume, timestamp, symbol });
+
+const setup = (options: { windowMs?: number; retainMs?: number } = {}) => {
+  const clock = new ManualClock(10_000);
+  const aggregator = new OrderflowAggregator({
+    windowMs: options.windowMs ?? 1000,
+    retainMs: options.retainMs,
+    clock,
+  });
+  return { clock, aggregator };
+};
+
+describe("OrderflowAggregator", () => {
+  it("sums ingested orders overall and per coin", () => {
+    const { clock, aggregator } = setup();
+    aggregator.ingest(order("buy", 100, clock.now(), "BTC"));
+    aggregator.ingest(order("sell", 50, clock.now(), "ETH"));
+    aggregator.ingest(order("buy", 25, clock.now()));
+
+    const snapshot = aggregator.snapshot();
+    expect(snapshot.totals).toEqual({
+      buy: 125,
+      sell: 50,
+      buyCount: 2,
+      sellCount: 1,
+    });
+    expect(snapshot.buyShare).toBeCloseTo(125 / 175);
+    expect(snapshot.bySymbol).toEqual({
+      BTC: { buy: 100, sell: 0, buyCount: 1, sellCount: 0 },
+      ETH: { buy: 0, sell: 50, buyCount: 0, sellCount: 1 },
+    });
+  });
+
+  it("evicts orders once they are older than the window", () => {
+    const { clock, aggregator } = setup();
+    aggregator.ingest(order("buy", 100, clock.now()));
+    clock.advance(500);
+    aggregator.ingest(order("sell", 40, clock.now()));
+
+    clock.advance(600);
+    expect(aggregator.snapshot().totals).toEqual({
+      buy: 0,
+      sell: 40,
+      buyCount: 0,
+      sellCount: 1,
+    });
+
+    clock.advance(500);
+    expect(aggregator.snapshot().totals.sellCount).toBe(0);
+  });
+
+  it("reports a 0.5 buy share for an empty window", () => {
+    const { clock, aggregator } = setup();
+    expect(aggregator.snapshot().buyShare).toBe(0.5);
+
+    aggregator.ingest(order("buy", 10, clock.now()));
+    clock.advance(2000);
+    expect(aggregator.snapshot().buyShare).toBe(0.5);
+    expect(buyShareOf({ buy: 0, sell: 0, buyCount: 0, sellCount: 0 })).toBe(
+      0.5
+    );
+  });
+
+  it("clamps float drift on eviction so volumes never go negative", () => {
+    const { clock, aggregator } = setup();
+    // 0.7 + 0.1 - 0.7 - 0.1 is slightly below zero in floating point.
+    aggregator.ingest(order("sell", 0.7, clock.now(), "BTC"));
+    clock.advance(100);
+    aggregator.ingest(order("sell", 0.1, clock.now(), "BTC"));
+
+    clock.advance(1100);
+    const snapshot = aggregator.snapshot();
+    expect(snapshot.totals.sell).toBe(0);
+    expect(snapshot.bySymbol.BTC.sell).toBe(0);
+    expect(snapshot.buyShare).toBe(0.5);
+  });
+
+  it("shrinks and regrows the window from retained history", () => {
+    const { clock, aggregator } = setup({ retainMs: 5000 });
+    aggregator.setWindow(5000);
+    aggregator.ingest(order("buy", 10, clock.now() - 4000));
+    aggregator.ingest(order("sell", 20, clock.now() - 1500));
+    aggregator.ingest(order("buy", 30, clock.now()));
+
+    aggregator.setWindow(1000);
+    expect(aggregator.windowMs).toBe(1000);
+    expect(aggregator.snapshot().totals).toEqual({
+      buy: 30,
+      sell: 0,
+      buyCount: 1,
+      sellCount: 0,
+    });
+
+    aggregator.setWindow(2000);
+    expect(aggregator.snapshot().totals).toEqual({
+      buy: 30,
+      sell: 20,
+      buyCount: 1,
+      sellCount: 1,
+    });
+
+    aggregator.setWindow(5000);
+    expect(aggregator.snapshot().totals.buy).toBe(40);
+  });
+
+  it("lands a late order in its own bucket and ages it out on time", () => {
+    const { clock, aggregator } = setup();
+    aggregator.ingest(order("buy", 10, clock.now()));
+    aggregator.ingest(order("sell", 5, clock.now() - 700, "ETH"));
+
+    expect(aggregator.snapshot().totals).toEqual({
+      buy: 10,
+      sell: 5,
+      buyCount: 1,
+      sellCount: 1,
+    });
+
+    // The late bucket leaves the window before the newer one does.
+    clock.advance(400);
+    expect(aggregator.snapshot().totals).toEqual({
+      buy: 10,
+      sell: 0,
+      buyCount: 1,
+      sellCount: 0,
+    });
+    expect(aggregator.snapshot().bySymbol.ETH.sellCount).toBe(0);
+  });
+
+  it("keeps a late order behind the window for a later resize", () => {
+    const { clock, aggregator } = setup({ retainMs: 5000 });
+    aggregator.ingest(order("buy", 10, clock.now()));
+
+    expect(aggregator.ingest(order("sell", 5, clock.now() - 3000))).toBe(true);
+    expect(aggregator.snapshot().totals.sell).toBe(0);
+
+    aggregator.setWindow(4000);
+    expect(aggregator.snapshot().totals.sell).toBe(5);
+  });
+
+  it("ignores orders older than the retained history", () => {
+    const { clock, aggregator } = setup({ retainMs: 2000 });
+    expect(aggregator.ingest(order("buy", 10, clock.now() - 2500))).toBe(
+      false
+    );
+    aggregator.setWindow(2000);
+    expect(aggregator.snapshot().totals.buyCount).toBe(0);
+  });
+
+  it("tracks extra windows over the same buckets", () => {
+    const clock = new ManualClock(10_000);
+    const aggregator = new OrderflowAggregator({
+      windowMs: 1000,
+      extraWindowsMs: [1000, 5000],
+      clock,
+    });
+    aggregator.ingest(order("sell", 20, clock.now() - 3000));
+    aggregator.ingest(order("buy", 10, clock.now()));
+
+    const [short, long] = aggregator.snapshot().windows;
+    expect(short.windowMs).toBe(1000);
+    expect(short.totals.sellCount).toBe(0);
+    expect(long.totals).toEqual({
+      buy: 10,
+      sell: 20,
+      buyCount: 1,
+      sellCount: 1,
+    });
+
+    clock.advance(2500);
+    expect(aggregator.snapshot().windows[1].totals.sellCount).toBe(0);
+  });
+});
+
+describe("formatLookback", () => {
+  it("uses minutes only for whole minutes", () => {
+    expect(formatLookback(10_000)).toBe("10s");
+    expect(formatLookback(90_000)).toBe("90s");
+    expect(formatLookback(300_000)).toBe("5m");
+  });
+});
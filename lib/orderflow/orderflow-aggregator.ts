@@ -0,0 +1,365 @@
+import { OrderEvent, WindowSummary, WindowTotals } from "./types";
+import { Clock, realtimeClock } from "./clock";
+
+// Framework-free rolling aggregation shared by the canvas and the worker.
+// Orders are summed into fixed time buckets instead of being kept one by
+// one: ingest touches one bucket, eviction drops whole buckets from the
+// front, and resizing a window only adds or subtracts the buckets that
+// cross the new cutoff. Several windows can run over the same buckets.
+
+/**
+ * Longest lookback the controls offer. The canvas and worker retain this
+ * much history, so any resize within it is incremental.
+ */
+export const MAX_LOOKBACK_MS = 300_000;
+
+export type OrderflowAggregatorOptions = {
+  windowMs: number;
+  /** Further windows tracked alongside `windowMs`, e.g. 10 s, 60 s, 5 m. */
+  extraWindowsMs?: readonly number[];
+  /** Bucket width; trades leave the window at most this late. Default 100. */
+  bucketMs?: number;
+  /**
+   * History kept behind the window, so growing the window brings back
+   * trades that had aged out of it. Never less than `windowMs`.
+   */
+  retainMs?: number;
+  clock?: Clock;
+};
+
+export type OrderflowSnapshot = {
+  /** Clock time the snapshot was taken at. */
+  at: number;
+  windowMs: number;
+  totals: WindowTotals;
+  /** Unsmoothed buy share of `totals`; 0.5 when the window is empty. */
+  buyShare: number;
+  /** Per-coin totals for orders that carry a `symbol`. */
+  bySymbol: Record<string, WindowTotals>;
+  /** The extra windows, in the order they were configured. */
+  windows: WindowSummary[];
+};
+
+type Bucket = {
+  start: number;
+  totals: WindowTotals;
+  bySymbol: Map<string, WindowTotals>;
+};
+
+/** One lookback over the shared buckets. */
+type WindowState = {
+  length: number;
+  /** First bucket inside this window. */
+  start: number;
+  totals: WindowTotals;
+  bySymbol: Map<string, WindowTotals>;
+};
+
+const emptyTotals = (): WindowTotals => ({
+  buy: 0,
+  sell: 0,
+  buyCount: 0,
+  sellCount: 0,
+});
+
+/** Buy share of `totals`, 0.5 when nothing traded. */
+export const buyShareOf = (totals: WindowTotals) => {
+  const total = totals.buy + totals.sell;
+  return total > 0 ? totals.buy / total : 0.5;
+};
+
+/** "10s", "90s", "5m": whole minutes from a minute up, else seconds. */
+export const formatLookback = (windowMs: number) => {
+  const seconds = Math.round(windowMs / 1000);
+  return seconds >= 60 && seconds % 60 === 0
+    ? `${seconds / 60}m`
+    : `${seconds}s`;
+};
+
+const addOrder = (totals: WindowTotals, order: OrderEvent) => {
+  if (order.side === "buy") {
+    totals.buy += order.volume;
+    totals.buyCount += 1;
+  } else {
+    totals.sell += order.volume;
+    totals.sellCount += 1;
+  }
+};
+
+// Volumes are clamped at zero so float drift never shows a negative side.
+const applyTotals = (
+  target: WindowTotals,
+  delta: WindowTotals,
+  sign: 1 | -1
+) => {
+  target.buy = Math.max(0, target.buy + sign * delta.buy);
+  target.sell = Math.max(0, target.sell + sign * delta.sell);
+  target.buyCount += sign * delta.buyCount;
+  target.sellCount += sign * delta.sellCount;
+};
+
+/**
+ * Rolling buy/sell totals over the last `windowMs` of `clock` time (and any
+ * extra windows), overall and per coin. Buckets live in one array, oldest
+ * first. Each window keeps the index of its first bucket and running totals
+ * for the buckets from there on; buckets older than every window are
+ * retained history. In-order ingest and eviction are O(1) per window; a
+ * late order lands in its own bucket by binary search.
+ */
+export class OrderflowAggregator {
+  private readonly bucketMs: number;
+  private readonly retainMs: number;
+  private readonly clock: Clock;
+  private buckets: Bucket[] = [];
+  /** First live bucket; everything before it has been evicted. */
+  private head = 0;
+  private primary: WindowState;
+  private extras: WindowState[] = [];
+
+  constructor({
+    windowMs,
+    extraWindowsMs = [],
+    bucketMs = 100,
+    retainMs = 0,
+    clock = realtimeClock,
+  }: OrderflowAggregatorOptions) {
+    this.bucketMs = Math.max(1, bucketMs);
+    this.retainMs = retainMs;
+    this.clock = clock;
+    this.primary = this.createWindow(windowMs);
+    this.setExtraWindows(extraWindowsMs);
+  }
+
+  get windowMs() {
+    return this.primary.length;
+  }
+
+  /**
+   * Adds `order` to its bucket. Returns false (and ignores it) when the
+   * order is older than the retained history.
+   */
+  ingest(order: OrderEvent, now = this.clock.now()): boolean {
+    const start = Math.floor(order.timestamp / this.bucketMs) * this.bucketMs;
+    if (start + this.bucketMs <= now - this.horizonMs) return false;
+    // Keeps each window's start exact, so every bucket from it on is inside.
+    this.evict(now);
+    const index = this.bucketIndex(start, now);
+    const bucket = this.buckets[index];
+    addOrder(bucket.totals, order);
+    if (order.symbol) {
+      let perSymbol = bucket.bySymbol.get(order.symbol);
+      if (!perSymbol) {
+        perSymbol = emptyTotals();
+        bucket.bySymbol.set(order.symbol, perSymbol);
+      }
+      addOrder(perSymbol, order);
+    }
+    for (const window of this.windows) {
+      if (index < window.start) continue;
+      addOrder(window.totals, order);
+      if (order.symbol) addOrder(symbolTotals(window, order.symbol), order);
+    }
+    return true;
+  }
+
+  /**
+   * Oldest trade time still worth keeping: the retained history or the
+   * longest window, whichever reaches back further. Feed this to
+   * `ReorderBuffer.push` so late trades reach every window.
+   */
+  cutoff(now = this.clock.now()) {
+    return now - this.horizonMs;
+  }
+
+  /** Moves every window to `now`, dropping buckets past the cutoffs. */
+  evict(now = this.clock.now()) {
+    let oldestStart = this.buckets.length;
+    for (const window of this.windows) {
+      while (
+        window.start < this.buckets.length &&
+        !this.inWindow(this.buckets[window.start], window.length, now)
+      ) {
+        apply(window, this.buckets[window.start], -1);
+        window.start += 1;
+      }
+      oldestStart = Math.min(oldestStart, window.start);
+    }
+    const horizon = now - this.horizonMs;
+    while (
+      this.head < oldestStart &&
+      this.buckets[this.head].start + this.bucketMs <= horizon
+    ) {
+      this.head += 1;
+    }
+    this.compact();
+  }
+
+  /**
+   * Resizes the primary window. Shrinking subtracts the buckets that fall
+   * out; growing adds retained buckets back. Only the buckets between the
+   * old and new cutoff are touched.
+   */
+  setWindow(windowMs: number, now = this.clock.now()) {
+    this.resize(this.primary, windowMs, now);
+    this.evict(now);
+  }
+
+  /**
+   * Replaces the extra windows. Windows whose length is unchanged keep
+   * their totals; new ones are filled from the retained buckets.
+   */
+  setExtraWindows(windowsMs: readonly number[], now = this.clock.now()) {
+    const existing = new Map(
+      this.extras.map((window) => [window.length, window])
+    );
+    this.extras = windowsMs.map((windowMs) => {
+      const kept = existing.get(windowMs);
+      if (kept) {
+        existing.delete(windowMs);
+        return kept;
+      }
+      const window = this.createWindow(windowMs);
+      this.resize(window, windowMs, now);
+      return window;
+    });
+    this.evict(now);
+  }
+
+  snapshot(now = this.clock.now()): OrderflowSnapshot {
+    this.evict(now);
+    const { totals, bySymbol } = summarize(this.primary);
+    return {
+      at: now,
+      windowMs: this.primary.length,
+      totals,
+      buyShare: buyShareOf(totals),
+      bySymbol,
+      windows: this.extras.map(summarize),
+    };
+  }
+
+  /**
+   * Stops reporting `symbol` (e.g. a deselected coin). Its trades stay in
+   * the combined totals; a later trade on it starts a fresh aggregate.
+   */
+  forget(symbol: string) {
+    for (const window of this.windows) window.bySymbol.delete(symbol);
+    for (let i = this.head; i < this.buckets.length; i++) {
+      this.buckets[i].bySymbol.delete(symbol);
+    }
+  }
+
+  clear() {
+    this.buckets = [];
+    this.head = 0;
+    for (const window of this.windows) {
+      window.start = 0;
+      window.totals = emptyTotals();
+      window.bySymbol = new Map();
+    }
+  }
+
+  private get windows() {
+    return [this.primary, ...this.extras];
+  }
+
+  private get horizonMs() {
+    return Math.max(
+      this.retainMs,
+      this.primary.length,
+      ...this.extras.map((window) => window.length)
+    );
+  }
+
+  // A bucket counts while any part of it is at or after the cutoff, same
+  // as a trade at `timestamp >= now - windowMs`.
+  private inWindow(bucket: Bucket, windowMs: number, now: number) {
+    return bucket.start + this.bucketMs > now - windowMs;
+  }
+
+  // Starts past the last bucket, i.e. empty; `resize` fills it.
+  private createWindow(length: number): WindowState {
+    return {
+      length,
+      start: this.buckets.length,
+      totals: emptyTotals(),
+      bySymbol: new Map(),
+    };
+  }
+
+  private resize(window: WindowState, windowMs: number, now: number) {
+    window.length = windowMs;
+    while (
+      window.start > this.head &&
+      this.inWindow(this.buckets[window.start - 1], windowMs, now)
+    ) {
+      window.start -= 1;
+      apply(window, this.buckets[window.start], 1);
+    }
+  }
+
+  /** Index of the bucket starting at `start`, creating it if needed. */
+  private bucketIndex(start: number, now: number): number {
+    const last = this.buckets.length - 1;
+    if (last >= this.head && this.buckets[last].start === start) return last;
+    let index = this.buckets.length;
+    if (last >= this.head && this.buckets[last].start > start) {
+      let lo = this.head;
+      let hi = this.buckets.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (this.buckets[mid].start < start) lo = mid + 1;
+        else hi = mid;
+      }
+      if (this.buckets[lo].start === start) return lo;
+      index = lo;
+    }
+    const bucket: Bucket = { start, totals: emptyTotals(), bySymbol: new Map() };
+    this.buckets.splice(index, 0, bucket);
+    // A new bucket behind a window's first bucket is outside that window.
+    for (const window of this.windows) {
+      if (
+        index < window.start ||
+        (index === window.start &&
+          !this.inWindow(bucket, window.length, now))
+      ) {
+        window.start += 1;
+      }
+    }
+    return index;
+  }
+
+  // Evicted buckets are skipped by index and only sliced off in bulk.
+  private compact() {
+    if (this.head < 1024 || this.head * 2 < this.buckets.length) return;
+    this.buckets = this.buckets.slice(this.head);
+    for (const window of this.windows) window.start -= this.head;
+    this.head = 0;
+  }
+}
+
+function symbolTotals(window: WindowState, symbol: string) {
+  let totals = window.bySymbol.get(symbol);
+  if (!totals) {
+    totals = emptyTotals();
+    window.bySymbol.set(symbol, totals);
+  }
+  return totals;
+}
+
+function apply(window: WindowState, bucket: Bucket, sign: 1 | -1) {
+  applyTotals(window.totals, bucket.totals, sign);
+  bucket.bySymbol.forEach((totals, symbol) => {
+    const target =
+      sign === 1 ? symbolTotals(window, symbol) : window.bySymbol.get(symbol);
+    if (target) applyTotals(target, totals, sign);
+  });
+}
+
+function summarize(window: WindowState): WindowSummary {
+  const bySymbol: Record<string, WindowTotals> = {};
+  window.bySymbol.forEach((totals, symbol) => {
+    bySymbol[symbol] = { ...totals };
+  });
+  return { windowMs: window.length, totals: { ...window.totals }, bySymbol };
+}
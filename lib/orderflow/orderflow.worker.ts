@@ -0,0 +1,193 @@
+// Runs the Hyperliquid socket, frame parsing, dedup and rolling aggregation
+// off the UI thread. The UI receives batched OrderEvents plus a totals
+// snapshot a few times per second instead of one callback per trade.
+
+import {
+  BehaviorSubject,
+  EMPTY,
+  Subscription,
+  distinctUntilChanged,
+  filter,
+  merge,
+  switchMap,
+} from "rxjs";
+import { OrderEvent, WindowSummary, WindowTotals } from "./types";
+import { HyperliquidWebSocket } from "./hyperliquid-websocket";
+import { HyperliquidInfoClient } from "./hyperliquid-info";
+import { createRecentIdFilter, hyperliquidOrders$ } from "./hyperliquid-orders";
+import {
+  MAX_LOOKBACK_MS,
+  OrderflowAggregator,
+} from "./orderflow-aggregator";
+import { ReorderBuffer, ReorderMetrics } from "./reorder-buffer";
+import { WorkerRequest, WorkerResponse } from "./worker-protocol";
+
+type WorkerScope = {
+  postMessage(message: WorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const scope = self as unknown as WorkerScope;
+const FLUSH_INTERVAL_MS = 100;
+
+let ws: HyperliquidWebSocket | null = null;
+let aggregator: OrderflowAggregator | null = null;
+let reorder: ReorderBuffer | null = null;
+let subscription: Subscription | null = null;
+let statusSubscription: Subscription | null = null;
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+let pending: OrderEvent[] = [];
+let lastTotals: WindowTotals | null = null;
+let lastBySymbol: Record<string, WindowTotals> | null = null;
+let lastWindows: WindowSummary[] | null = null;
+let lastReorder: ReorderMetrics | null = null;
+const streaming = new BehaviorSubject<boolean>(true);
+
+const sameTotals = (a: WindowTotals | null, b: WindowTotals) =>
+  !!a &&
+  a.buy === b.buy &&
+  a.sell === b.sell &&
+  a.buyCount === b.buyCount &&
+  a.sellCount === b.sellCount;
+
+const sameBySymbol = (
+  a: Record<string, WindowTotals> | null,
+  b: Record<string, WindowTotals>
+) =>
+  !!a &&
+  Object.keys(a).length === Object.keys(b).length &&
+  Object.entries(b).every(([symbol, totals]) => sameTotals(a[symbol], totals));
+
+// Longer windows age out trades while the primary one stays unchanged.
+const sameWindows = (a: WindowSummary[] | null, b: WindowSummary[]) =>
+  !!a &&
+  a.length === b.length &&
+  b.every(
+    (window, index) =>
+      a[index].windowMs === window.windowMs &&
+      sameTotals(a[index].totals, window.totals) &&
+      sameBySymbol(a[index].bySymbol, window.bySymbol)
+  );
+
+const sameReorder = (a: ReorderMetrics | null, b: ReorderMetrics) =>
+  !!a && a.late === b.late && a.dropped === b.dropped;
+
+function flush(force = false) {
+  if (!aggregator || !reorder) return;
+  for (const order of reorder.drain()) {
+    aggregator.ingest(order);
+    pending.push(order);
+  }
+  const { totals, bySymbol, windows } = aggregator.snapshot();
+  const metrics = reorder.metrics;
+  // Pruning alone changes totals as trades age out, so post those too.
+  if (
+    !force &&
+    pending.length === 0 &&
+    sameTotals(lastTotals, totals) &&
+    sameBySymbol(lastBySymbol, bySymbol) &&
+    sameWindows(lastWindows, windows) &&
+    sameReorder(lastReorder, metrics)
+  ) {
+    return;
+  }
+  scope.postMessage({
+    type: "batch",
+    orders: pending,
+    totals,
+    bySymbol,
+    windows,
+    reorder: metrics,
+  });
+  pending = [];
+  lastTotals = totals;
+  lastBySymbol = bySymbol;
+  lastWindows = windows;
+  lastReorder = metrics;
+}
+
+function stop() {
+  subscription?.unsubscribe();
+  subscription = null;
+  statusSubscription?.unsubscribe();
+  statusSubscription = null;
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+  ws?.disconnect();
+  ws = null;
+  aggregator = null;
+  reorder = null;
+  pending = [];
+  lastTotals = null;
+  lastBySymbol = null;
+  lastWindows = null;
+  lastReorder = null;
+}
+
+function start(request: Extract<WorkerRequest, { type: "start" }>) {
+  stop();
+  const client = new HyperliquidWebSocket({ network: request.network });
+  const windowTotals = new OrderflowAggregator({
+    windowMs: request.windowMs,
+    extraWindowsMs: request.extraWindowsMs,
+    retainMs: MAX_LOOKBACK_MS,
+  });
+  const buffer = new ReorderBuffer();
+  ws = client;
+  aggregator = windowTotals;
+  reorder = buffer;
+  statusSubscription = client.status$.subscribe((event) =>
+    scope.postMessage({ type: "status", event })
+  );
+
+  const infoClient = new HyperliquidInfoClient({ network: request.network });
+  const orders$ = merge(
+    ...request.symbols.map((symbol) =>
+      hyperliquidOrders$(client, {
+        symbol,
+        backfill: request.backfill,
+        infoClient,
+      })
+    )
+  );
+  subscription = streaming
+    .pipe(
+      distinctUntilChanged(),
+      switchMap((on) => (on ? orders$ : EMPTY)),
+      filter(createRecentIdFilter())
+    )
+    .subscribe((order) => {
+      // Released into the window on the next flush, in timestamp order.
+      buffer.push(order, windowTotals.cutoff());
+    });
+  flushTimer = setInterval(() => flush(), FLUSH_INTERVAL_MS);
+  flush(true);
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  switch (request.type) {
+    case "start":
+      start(request);
+      break;
+    case "setWindow":
+      aggregator?.setWindow(request.windowMs);
+      flush(true);
+      break;
+    case "setExtraWindows":
+      aggregator?.setExtraWindows(request.windowsMs);
+      flush(true);
+      break;
+    case "pause":
+      streaming.next(false);
+      break;
+    case "resume":
+      streaming.next(true);
+      break;
+    case "stop":
+      stop();
+      break;
+  }
+};
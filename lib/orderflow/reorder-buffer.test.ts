@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { ManualClock } from "./clock";
+import { OrderEvent, OrderSide } from "./types";
+import { ReorderBuffer } from "./reorder-buffer";
+import { MAX_LOOKBACK_MS, OrderflowAggregator } from "./orderflow-aggregator";
+
+let nextId = 0;
+const order = (
+  side: OrderSide,
+  volume: number,
+  timestamp: number
+): OrderEvent => ({ id: `o${(nextId += 1)}`, side, volume, timestamp });
+
+describe("ReorderBuffer", () => {
+  it("releases out-of-order arrivals in timestamp order", () => {
+    const clock = new ManualClock(1000);
+    const buffer = new ReorderBuffer(250, clock);
+    const late = order("sell", 1, 900);
+    const early = order("buy", 1, 800);
+    const latest = order("buy", 1, 950);
+    for (const pushed of [late, latest, early]) buffer.push(pushed, 0);
+
+    clock.advance(250);
+    expect(buffer.drain()).toEqual([early, late, latest]);
+    expect(buffer.metrics).toEqual({ late: 0, dropped: 0 });
+  });
+
+  it("holds orders for holdMs, or until a trade holdMs newer arrives", () => {
+    const clock = new ManualClock(1000);
+    const buffer = new ReorderBuffer(250, clock);
+    const first = order("buy", 1, 1000);
+    buffer.push(first, 0);
+
+    clock.advance(249);
+    expect(buffer.drain()).toEqual([]);
+    clock.advance(1);
+    expect(buffer.drain()).toEqual([first]);
+
+    // A newer trade moves the watermark past the held one at once.
+    const held = order("sell", 1, 1300);
+    const newer = order("buy", 1, 1600);
+    buffer.push(held, 0);
+    buffer.push(newer, 0);
+    expect(buffer.drain()).toEqual([held]);
+  });
+
+  it("counts an order older than one already released as late", () => {
+    const clock = new ManualClock(1000);
+    const buffer = new ReorderBuffer(250, clock);
+    buffer.push(order("buy", 1, 1000), 0);
+    clock.advance(250);
+    buffer.drain();
+
+    const straggler = order("sell", 1, 900);
+    expect(buffer.push(straggler, 0)).toBe(true);
+    clock.advance(250);
+    expect(buffer.drain()).toEqual([straggler]);
+    expect(buffer.metrics).toEqual({ late: 1, dropped: 0 });
+  });
+
+  it("drops orders older than the cutoff and never releases them", () => {
+    const clock = new ManualClock(1000);
+    const buffer = new ReorderBuffer(250, clock);
+    expect(buffer.push(order("buy", 1, 499), 500)).toBe(false);
+    const kept = order("sell", 1, 500);
+    expect(buffer.push(kept, 500)).toBe(true);
+
+    clock.advance(250);
+    expect(buffer.drain()).toEqual([kept]);
+    expect(buffer.metrics).toEqual({ late: 0, dropped: 1 });
+  });
+});
+
+describe("ReorderBuffer into OrderflowAggregator", () => {
+  it("delivers a late trade older than the primary window to longer windows", () => {
+    const clock = new ManualClock(1_000_000);
+    const aggregator = new OrderflowAggregator({
+      windowMs: 10_000,
+      extraWindowsMs: [10_000, 60_000, 300_000],
+      retainMs: MAX_LOOKBACK_MS,
+      clock,
+    });
+    const buffer = new ReorderBuffer(250, clock);
+
+    // A backfilled trade from 30 s ago, as the canvas and worker push it.
+    const pushed = buffer.push(
+      order("sell", 50, clock.now() - 30_000),
+      aggregator.cutoff()
+    );
+    expect(pushed).toBe(true);
+    clock.advance(250);
+    for (const released of buffer.drain()) aggregator.ingest(released);
+
+    const { totals, windows } = aggregator.snapshot();
+    expect(totals.sellCount).toBe(0);
+    expect(windows.map((window) => window.totals.sellCount)).toEqual([
+      0, 1, 1,
+    ]);
+    expect(buffer.metrics.dropped).toBe(0);
+  });
+});
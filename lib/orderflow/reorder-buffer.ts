@@ -0,0 +1,78 @@
+import { OrderEvent } from "./types";
+import { Clock, realtimeClock } from "./clock";
+
+export type ReorderMetrics = {
+  /** Released after a newer trade had already gone out. */
+  late: number;
+  /** Already older than the caller's cutoff on arrival; never released. */
+  dropped: number;
+};
+
+type HeldOrder = { order: OrderEvent; arrivedAt: number };
+
+/**
+ * Small time-bounded buffer between a stream and the rolling window.
+ * Orders are held for up to `holdMs` (by local arrival time) or until a
+ * trade `holdMs` newer has been seen, then released in timestamp order.
+ * Arrival times come from `clock` (wall time unless a test steps one).
+ * Anything arriving after a newer trade was released is counted as late;
+ * the aggregator files it under its own time bucket.
+ */
+export class ReorderBuffer {
+  private held: HeldOrder[] = [];
+  private maxSeen = -Infinity;
+  private releasedUpTo = -Infinity;
+  private counts: ReorderMetrics = { late: 0, dropped: 0 };
+
+  constructor(
+    private readonly holdMs = 250,
+    private readonly clock: Clock = realtimeClock
+  ) {}
+
+  /** Returns false when the order was dropped as older than `cutoff`. */
+  push(order: OrderEvent, cutoff: number, now = this.clock.now()): boolean {
+    if (order.timestamp < cutoff) {
+      this.counts.dropped += 1;
+      return false;
+    }
+    if (order.timestamp < this.releasedUpTo) {
+      this.counts.late += 1;
+    }
+    this.maxSeen = Math.max(this.maxSeen, order.timestamp);
+    let index = this.held.length;
+    while (
+      index > 0 &&
+      this.held[index - 1].order.timestamp > order.timestamp
+    ) {
+      index -= 1;
+    }
+    this.held.splice(index, 0, { order, arrivedAt: now });
+    return true;
+  }
+
+  /** Orders whose hold has elapsed, oldest timestamp first. */
+  drain(now = this.clock.now()): OrderEvent[] {
+    const watermark = this.maxSeen - this.holdMs;
+    let count = 0;
+    while (count < this.held.length) {
+      const { order, arrivedAt } = this.held[count];
+      if (order.timestamp > watermark && now - arrivedAt < this.holdMs) break;
+      count += 1;
+    }
+    return this.release(count);
+  }
+
+  get metrics(): ReorderMetrics {
+    return { ...this.counts };
+  }
+
+  private release(count: number): OrderEvent[] {
+    if (count === 0) return [];
+    const released = this.held.splice(0, count).map(({ order }) => order);
+    this.releasedUpTo = Math.max(
+      this.releasedUpTo,
+      released[released.length - 1].timestamp
+    );
+    return released;
+  }
+}
@@ -0,0 +1,162 @@
+import {
+  HyperliquidSocket,
+  HyperliquidSocketFactory,
+  HyperliquidWebSocket,
+} from "./hyperliquid-websocket";
+
+// Record raw Hyperliquid frames to JSONL and feed them back through a fake
+// socket, so a glitch seen on a live tape can be reproduced frame by frame.
+
+export type RecordedFrame = {
+  /** Local receive time, ms since epoch. */
+  receivedAt: number;
+  /** Frame text exactly as it came off the socket. */
+  data: string;
+};
+
+/** Captures raw frames from a client until stopped. */
+export class FrameRecorder {
+  private recorded: RecordedFrame[] = [];
+  private detach: (() => void) | null = null;
+
+  get recording() {
+    return this.detach !== null;
+  }
+
+  get frames(): readonly RecordedFrame[] {
+    return this.recorded;
+  }
+
+  start(client: HyperliquidWebSocket) {
+    this.stop();
+    this.recorded = [];
+    this.detach = client.onRawFrame((data, receivedAt) => {
+      this.recorded.push({ receivedAt, data });
+    });
+  }
+
+  stop() {
+    this.detach?.();
+    this.detach = null;
+  }
+
+  toJsonl(): string {
+    return this.recorded.map((frame) => JSON.stringify(frame)).join("\n");
+  }
+
+  // Browser-only: saves the session as a `.jsonl` download.
+  download(filename = `hyperliquid-session-${Date.now()}.jsonl`) {
+    const blob = new Blob([this.toJsonl()], { type: "application/x-ndjson" });
+    const href = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = href;
+    anchor.download = filename;
+    anchor.click();
+    URL.revokeObjectURL(href);
+  }
+}
+
+/** Parses a recorded JSONL session; malformed lines are skipped. */
+export function parseRecording(text: string): RecordedFrame[] {
+  const frames: RecordedFrame[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as Partial<RecordedFrame>;
+      if (
+        typeof parsed.receivedAt === "number" &&
+        typeof parsed.data === "string"
+      ) {
+        frames.push({ receivedAt: parsed.receivedAt, data: parsed.data });
+      }
+    } catch {
+      // skip partial or corrupted lines
+    }
+  }
+  return frames.sort((a, b) => a.receivedAt - b.receivedAt);
+}
+
+type ReplayOptions = {
+  /** Playback speed multiplier; 1 replays in real time. */
+  speed?: number;
+};
+
+/**
+ * Fake socket that "opens" immediately and plays recorded frames with their
+ * original spacing divided by `speed`. Client pings get a pong so the stale
+ * watchdog stays quiet through long gaps in the recording.
+ */
+class ReplaySocket implements HyperliquidSocket {
+  readyState = 0;
+  onopen: HyperliquidSocket["onopen"] = null;
+  onmessage: HyperliquidSocket["onmessage"] = null;
+  onclose: HyperliquidSocket["onclose"] = null;
+  onerror: HyperliquidSocket["onerror"] = null;
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private index = 0;
+  private startedAt = 0;
+
+  constructor(
+    private readonly frames: readonly RecordedFrame[],
+    private readonly speed: number
+  ) {
+    this.timer = setTimeout(() => {
+      this.readyState = 1;
+      this.startedAt = Date.now();
+      this.onopen?.call(this as unknown as WebSocket, new Event("open"));
+      this.scheduleNext();
+    }, 0);
+  }
+
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+    if (typeof data !== "string") return;
+    if (data.includes('"ping"')) {
+      this.emit(JSON.stringify({ channel: "pong" }));
+    }
+  }
+
+  close() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.call(
+      this as unknown as WebSocket,
+      // Plain object: `CloseEvent` is not a global outside browsers.
+      { code: 1000, reason: "replay closed", wasClean: true } as CloseEvent
+    );
+  }
+
+  private scheduleNext() {
+    const frame = this.frames[this.index];
+    if (!frame || this.readyState !== 1) {
+      this.timer = null;
+      return;
+    }
+    const offset = (frame.receivedAt - this.frames[0].receivedAt) / this.speed;
+    const delay = Math.max(0, this.startedAt + offset - Date.now());
+    this.timer = setTimeout(() => {
+      this.index += 1;
+      this.emit(frame.data);
+      this.scheduleNext();
+    }, delay);
+  }
+
+  private emit(data: string) {
+    this.onmessage?.call(
+      this as unknown as WebSocket,
+      new MessageEvent("message", { data })
+    );
+  }
+}
+
+/** Transport factory for `HyperliquidWebSocket` that replays a session. */
+export function createReplaySocketFactory(
+  frames: readonly RecordedFrame[],
+  { speed = 1 }: ReplayOptions = {}
+): HyperliquidSocketFactory {
+  return () => new ReplaySocket(frames, Math.max(0.01, speed));
+}
@@ -0,0 +1,224 @@
+import { OrderEvent, OrderSide } from "./types";
+
+export type SyntheticScenarioId =
+  | "balanced"
+  | "bullish"
+  | "bearish"
+  | "whales"
+  | "regimeFlip"
+  | "drip";
+
+/** Orders fall in a tier with probability `weight / sum(weights)`. */
+export type SizeTier = { weight: number; min: number; max: number };
+
+export type ArrivalProcess =
+  /** `minMs + (1 - u)^skew * spreadMs`: mostly quick, with occasional lulls. */
+  | { kind: "weighted"; minMs: number; spreadMs: number; skew: number }
+  /** Exponential gaps at a constant average rate. */
+  | { kind: "poisson"; ratePerSecond: number };
+
+export type SyntheticScenario = {
+  id: SyntheticScenarioId;
+  label: string;
+  /** Probability that an order is a buy. */
+  buyShare: number;
+  /** Swaps `buyShare` and `1 - buyShare` every N seconds of stream time. */
+  flipEverySeconds?: number;
+  /** Notional per order (price × size), drawn from weighted tiers. */
+  sizes: SizeTier[];
+  arrival: ArrivalProcess;
+  /** Opening price of the random walk; defaults to 100. */
+  startPrice?: number;
+  /**
+   * Chance per order of starting a burst: `count` same-side orders drawn
+   * from `sizes`, `gapMs` apart, before normal flow resumes.
+   */
+  burst?: {
+    chance: number;
+    count: [min: number, max: number];
+    gapMs: number;
+    sizes: SizeTier[];
+  };
+};
+
+const defaultSizes: SizeTier[] = [
+  { weight: 0.6, min: 10, max: 110 },
+  { weight: 0.25, min: 100, max: 600 },
+  { weight: 0.15, min: 500, max: 2500 },
+];
+const defaultArrival: ArrivalProcess = {
+  kind: "weighted",
+  minMs: 50,
+  spreadMs: 2000,
+  skew: 3,
+};
+
+export const syntheticScenarios: Record<SyntheticScenarioId, SyntheticScenario> =
+  {
+    balanced: {
+      id: "balanced",
+      label: "Balanced",
+      buyShare: 0.5,
+      sizes: defaultSizes,
+      arrival: defaultArrival,
+    },
+    bullish: {
+      id: "bullish",
+      label: "Bullish trend",
+      buyShare: 0.65,
+      sizes: defaultSizes,
+      arrival: { kind: "weighted", minMs: 40, spreadMs: 1500, skew: 3 },
+    },
+    bearish: {
+      id: "bearish",
+      label: "Bearish trend",
+      buyShare: 0.35,
+      sizes: defaultSizes,
+      arrival: { kind: "weighted", minMs: 40, spreadMs: 1500, skew: 3 },
+    },
+    whales: {
+      id: "whales",
+      label: "Whale bursts",
+      buyShare: 0.5,
+      sizes: defaultSizes,
+      arrival: defaultArrival,
+      burst: {
+        chance: 0.03,
+        count: [4, 8],
+        gapMs: 60,
+        sizes: [{ weight: 1, min: 3000, max: 12000 }],
+      },
+    },
+    regimeFlip: {
+      id: "regimeFlip",
+      label: "Regime flip (20s)",
+      buyShare: 0.7,
+      flipEverySeconds: 20,
+      sizes: defaultSizes,
+      arrival: defaultArrival,
+    },
+    drip: {
+      id: "drip",
+      label: "Low-liquidity drip",
+      buyShare: 0.5,
+      sizes: [
+        { weight: 0.85, min: 5, max: 40 },
+        { weight: 0.15, min: 40, max: 150 },
+      ],
+      arrival: { kind: "poisson", ratePerSecond: 0.8 },
+    },
+  };
+
+/** mulberry32: tiny, fast and good enough for visual demos. */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const pickSize = (tiers: SizeTier[], random: () => number) => {
+  const total = tiers.reduce((sum, tier) => sum + tier.weight, 0);
+  let roll = random() * total;
+  for (const tier of tiers) {
+    roll -= tier.weight;
+    if (roll < 0) {
+      return Math.floor(tier.min + random() * (tier.max - tier.min));
+    }
+  }
+  const last = tiers[tiers.length - 1];
+  return last ? last.min : 0;
+};
+
+// Per-order log-return noise, plus a drift proportional to signed notional
+// so buy pressure walks the price up and sell pressure walks it down.
+const tickVolatility = 0.0004;
+const impactPerNotional = 2e-7;
+
+const drawDelay = (arrival: ArrivalProcess, random: () => number) =>
+  arrival.kind === "poisson"
+    ? (-Math.log(1 - random()) * 1000) / arrival.ratePerSecond
+    : arrival.minMs + Math.pow(1 - random(), arrival.skew) * arrival.spreadMs;
+
+/**
+ * Deterministic order source for a scenario: the same seed yields the same
+ * sides, sizes and gaps. Stream time advances by the drawn gaps, so regime
+ * flips land on the same orders regardless of timer jitter or pauses.
+ * Each order also carries a price from a walk that leans with the flow and
+ * the matching base size.
+ */
+export class SyntheticOrderGenerator {
+  private readonly random: () => number;
+  private readonly idPrefix: string;
+  private sequence = 0;
+  private elapsedMs = 0;
+  private burstRemaining = 0;
+  private burstSide: OrderSide = "buy";
+  private price: number;
+
+  constructor(
+    private readonly scenario: SyntheticScenario,
+    seed: number
+  ) {
+    this.random = createSeededRandom(seed);
+    this.price = scenario.startPrice ?? 100;
+    // Restarting with the same seed must not collide with ids still in the window.
+    this.idPrefix = `synthetic-${seed}-${Date.now().toString(36)}`;
+  }
+
+  /** Milliseconds until the next order. */
+  nextDelay(): number {
+    const { burst, arrival } = this.scenario;
+    const delay =
+      this.burstRemaining > 0 && burst
+        ? burst.gapMs
+        : drawDelay(arrival, this.random);
+    this.elapsedMs += delay;
+    return delay;
+  }
+
+  nextOrder(now = Date.now()): OrderEvent {
+    const { burst, sizes } = this.scenario;
+    let side: OrderSide;
+    let volume: number;
+    if (this.burstRemaining > 0 && burst) {
+      this.burstRemaining -= 1;
+      side = this.burstSide;
+      volume = pickSize(burst.sizes, this.random);
+    } else {
+      side = this.random() < this.currentBuyShare() ? "buy" : "sell";
+      volume = pickSize(sizes, this.random);
+      if (burst && this.random() < burst.chance) {
+        const [min, max] = burst.count;
+        this.burstRemaining = min + Math.floor(this.random() * (max - min + 1));
+        this.burstSide = this.random() < this.currentBuyShare() ? "buy" : "sell";
+      }
+    }
+    const signed = side === "buy" ? volume : -volume;
+    this.price *= Math.exp(
+      (this.random() - 0.5) * tickVolatility + signed * impactPerNotional
+    );
+    this.sequence += 1;
+    return {
+      id: `${this.idPrefix}-${this.sequence}`,
+      side,
+      volume,
+      timestamp: now,
+      price: this.price,
+      size: volume / this.price,
+      source: "synthetic",
+      receivedAt: now,
+    };
+  }
+
+  private currentBuyShare() {
+    const { buyShare, flipEverySeconds } = this.scenario;
+    if (!flipEverySeconds) return buyShare;
+    const regime = Math.floor(this.elapsedMs / (flipEverySeconds * 1000));
+    return regime % 2 === 0 ? buyShare : 1 - buyShare;
+  }
+}
@@ -0,0 +1,107 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseTradeFile } from "./trade-import";
+
+const fixture = (name: string) =>
+  parseTradeFile(
+    readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8")
+  );
+
+describe("parseTradeFile", () => {
+  it("reads a Hyperliquid fills CSV export, sorted by time", () => {
+    const { orders, rejected, errors } = fixture(
+      "import-hyperliquid-fills.csv"
+    );
+    expect(orders.map((order) => order.id)).toEqual([
+      "482911370551201",
+      "482911370551203",
+      "482911370551202",
+      "482911370551204",
+    ]);
+    // "B"/"A" map to buy/sell.
+    expect(orders.map((order) => order.side)).toEqual([
+      "buy",
+      "sell",
+      "sell",
+      "buy",
+    ]);
+    expect(orders[0]).toMatchObject({
+      symbol: "BTC",
+      timestamp: 1760860800110,
+      price: 107412,
+      size: 0.01523,
+      source: "replay",
+    });
+    expect(orders[0].volume).toBeCloseTo(107412 * 0.01523);
+    expect(rejected).toBe(1);
+    expect(errors).toEqual(["row 5: invalid price"]);
+  });
+
+  it("matches header variants and reports bad rows in a generic CSV", () => {
+    const { orders, rejected, errors } = fixture("import-generic.csv");
+    // Mixed-case headers, `;` delimiter, CRLF, a quoted thousands separator,
+    // epoch seconds and ISO dates.
+    expect(orders).toEqual([
+      expect.objectContaining({
+        id: "import-1",
+        side: "buy",
+        timestamp: 1760860800000,
+        price: 1050,
+        size: 1,
+        symbol: "SOL",
+      }),
+      expect.objectContaining({
+        id: "import-0",
+        side: "sell",
+        timestamp: 1760860801000,
+        price: 1050.5,
+        size: 2,
+      }),
+    ]);
+    expect(rejected).toBe(3);
+    expect(errors).toEqual([
+      "row 3: invalid timestamp",
+      "row 4: invalid side",
+      "row 5: invalid size",
+    ]);
+  });
+
+  it("reads wrapped JSON fills and falls back to `dir` for the side", () => {
+    const { orders, rejected, errors } = fixture("import-fills.json");
+    expect(orders.map(({ id, side }) => [id, side])).toEqual([
+      ["9002", "buy"],
+      ["9001", "sell"],
+    ]);
+    expect(rejected).toBe(1);
+    expect(errors).toEqual(["row 3: invalid price"]);
+  });
+
+  it("maps position directions onto the aggressor side", () => {
+    const csv = [
+      "time,dir,px,sz",
+      "1,Open Long,1,1",
+      "2,Close Long,1,1",
+      "3,Open Short,1,1",
+      "4,Close Short,1,1",
+    ].join("\n");
+    expect(parseTradeFile(csv).orders.map((order) => order.side)).toEqual([
+      "buy",
+      "sell",
+      "sell",
+      "buy",
+    ]);
+  });
+
+  it("reads JSON lines and counts unparseable input as empty", () => {
+    const lines = [
+      '{"timestamp":1760860800000,"side":"sell","price":10,"size":1}',
+      '{"timestamp":1760860800001,"side":"buy","price":10,"size":2}',
+    ].join("\n");
+    expect(parseTradeFile(lines).orders).toHaveLength(2);
+    expect(parseTradeFile("{not json")).toEqual({
+      orders: [],
+      rejected: 0,
+      errors: [],
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { OrderEvent, OrderSide } from "./types";
+
+// Historical trade files (CSV or JSON) mapped to OrderEvents for playback.
+// Accepts Hyperliquid trades/fills (`coin,side,px,sz,time,tid`, including
+// `dir` such as "Open Long") and a generic `timestamp,side,price,size`
+// schema; header names are matched case-insensitively against the aliases
+// below.
+
+export type TradeImport = {
+  /** Valid rows sorted by timestamp. */
+  orders: OrderEvent[];
+  /** Rows that failed validation. */
+  rejected: number;
+  /** The first few rejection reasons, e.g. `row 12: invalid price`. */
+  errors: string[];
+};
+
+type Row = Record<string, unknown>;
+
+const maxReportedErrors = 5;
+
+const fieldAliases = {
+  time: ["time", "timestamp", "ts", "t", "datetime", "date"],
+  side: ["side", "dir", "direction"],
+  price: ["px", "price", "p"],
+  size: ["sz", "size", "qty", "quantity", "q", "amount"],
+  symbol: ["coin", "symbol", "s", "market"],
+  id: ["tid", "id", "trade_id", "tradeid", "hash"],
+} as const;
+
+const pick = (row: Row, field: keyof typeof fieldAliases): unknown => {
+  for (const alias of fieldAliases[field]) {
+    const value = row[alias];
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return undefined;
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.replace(/,/g, ""));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+/** Epoch seconds, ms, µs or ns, or any `Date.parse`-able string, to ms. */
+const toTimestamp = (value: unknown): number | null => {
+  const num = toNumber(value);
+  if (num !== null) {
+    if (num <= 0) return null;
+    if (num < 1e11) return num * 1000;
+    if (num < 1e14) return num;
+    if (num < 1e17) return num / 1e3;
+    return num / 1e6;
+  }
+  if (typeof value !== "string") return null;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+// Hyperliquid fills carry both `side` ("B"/"A") and `dir` ("Open Long",
+// "Close Short", ...); generic exports use buy/sell.
+const toSide = (value: unknown): OrderSide | null => {
+  if (typeof value !== "string") return null;
+  const norm = value.trim().toLowerCase();
+  if (norm.includes("long")) return norm.startsWith("close") ? "sell" : "buy";
+  if (norm.includes("short")) return norm.startsWith("close") ? "buy" : "sell";
+  if (norm.startsWith("b")) return "buy";
+  if (norm.startsWith("s") || norm.startsWith("a")) return "sell";
+  return null;
+};
+
+const lowerKeys = (row: Row): Row => {
+  const lowered: Row = {};
+  for (const [key, value] of Object.entries(row)) {
+    lowered[key.trim().toLowerCase()] = value;
+  }
+  return lowered;
+};
+
+function rowToOrder(raw: Row, index: number): OrderEvent | string {
+  const row = lowerKeys(raw);
+  const timestamp = toTimestamp(pick(row, "time"));
+  if (timestamp === null) return "invalid timestamp";
+  // Prefer `side`; `dir` is the fallback spelling for fills.
+  const side = fieldAliases.side.reduce<OrderSide | null>(
+    (found, alias) => found ?? toSide(row[alias]),
+    null
+  );
+  if (!side) return "invalid side";
+  const price = toNumber(pick(row, "price"));
+  if (price === null || price <= 0) return "invalid price";
+  const size = toNumber(pick(row, "size"));
+  if (size === null || size <= 0) return "invalid size";
+  const symbolValue = pick(row, "symbol");
+  const symbol = typeof symbolValue === "string" ? symbolValue.trim() : "";
+  const idValue = pick(row, "id");
+  return {
+    id:
+      typeof idValue === "string" || typeof idValue === "number"
+        ? String(idValue)
+        : `import-${index}`,
+    side,
+    volume: price * size,
+    timestamp,
+    ...(symbol ? { symbol } : {}),
+    price,
+    size,
+    source: "replay",
+  };
+}
+
+/** Splits CSV text into rows, honouring quoted fields and `""` escapes. */
+function splitCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function parseCsvRows(text: string): Row[] {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length
+      ? candidate
+      : best
+  );
+  const [header, ...body] = splitCsv(text, delimiter);
+  if (!header) return [];
+  return body.map((cells) => {
+    const row: Row = {};
+    header.forEach((name, column) => {
+      row[name] = cells[column]?.trim();
+    });
+    return row;
+  });
+}
+
+/** JSON array, `{ data | fills | trades: [...] }`, or one object per line. */
+function parseJsonRows(text: string): Row[] | null {
+  const unwrap = (value: unknown): Row[] | null => {
+    if (Array.isArray(value)) {
+      return value.filter(
+        (entry): entry is Row => typeof entry === "object" && entry !== null
+      );
+    }
+    if (typeof value !== "object" || value === null) return null;
+    const record = value as Row;
+    for (const key of ["data", "fills", "trades"]) {
+      const nested = unwrap(record[key]);
+      if (nested) return nested;
+    }
+    return [record];
+  };
+  try {
+    return unwrap(JSON.parse(text));
+  } catch {
+    // Not a single document; try JSON lines.
+  }
+  const rows: Row[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      rows.push(...(unwrap(JSON.parse(line)) ?? []));
+    } catch {
+      return null;
+    }
+  }
+  return rows;
+}
+
+/**
+ * Parses a CSV or JSON trade export. The format is sniffed from the
+ * content (a leading `[` or `{` means JSON), so file extensions don't
+ * matter. Invalid rows are counted and skipped, never thrown.
+ */
+export function parseTradeFile(text: string): TradeImport {
+  const trimmed = text.trim();
+  const rows =
+    trimmed.startsWith("[") || trimmed.startsWith("{")
+      ? (parseJsonRows(trimmed) ?? [])
+      : parseCsvRows(trimmed);
+
+  const orders: OrderEvent[] = [];
+  const errors: string[] = [];
+  let rejected = 0;
+  rows.forEach((row, index) => {
+    const result = rowToOrder(row, index);
+    if (typeof result === "string") {
+      rejected += 1;
+      if (errors.length < maxReportedErrors) {
+        errors.push(`row ${index + 1}: ${result}`);
+      }
+    } else {
+      orders.push(result);
+    }
+  });
+  orders.sort((a, b) => a.timestamp - b.timestamp);
+  return { orders, rejected, errors };
+}
@@ -1,12 +1,51 @@
 export type OrderSide = "buy" | "sell";
 
+export type StreamMode = "synthetic" | "live" | "replay";
+
+/** Exchange feeding "live" mode. */
+export type LiveVenue = "hyperliquid" | "binance";
+
+/** Where an order came from; "backfill" = REST `recentTrades`, not the live tape. */
+export type OrderSource = "synthetic" | "live" | "backfill" | "replay";
+
 export type OrderEvent = {
   id: string;
   side: OrderSide;
+  /** Notional (price × size) when both are known, else size. */
   volume: number;
+  /** Trade time (exchange clock for live trades). */
   timestamp: number;
+  /** Coin the trade belongs to; unset for synthetic orders. */
+  symbol?: string;
+  price?: number;
+  /** Base-asset quantity. */
+  size?: number;
+  source?: OrderSource;
+  /** Local wall-clock time the order was parsed; `receivedAt - timestamp` ≈ feed latency. */
+  receivedAt?: number;
+};
+
+export type WindowTotals = {
+  buy: number;
+  sell: number;
+  buyCount: number;
+  sellCount: number;
 };
 
+/** Totals for one of several concurrent lookback windows. */
+export type WindowSummary = {
+  windowMs: number;
+  totals: WindowTotals;
+  bySymbol: Record<string, WindowTotals>;
+};
+
+/** One lookback window as shown to the user (ribbon view applied). */
+export type WindowStats = {
+  windowMs: number;
+  /** Unsmoothed; 0.5 when the window is empty. */
+  buyShare: number;
+} & WindowTotals;
+
 export type OrderflowStats = {
   buyShare: number;
   sellShare: number;
@@ -14,4 +53,16 @@ export type OrderflowStats = {
   sellVolume?: number;
   buyCount?: number;
   sellCount?: number;
+  /** Trades that arrived after newer ones were already released. */
+  lateTrades?: number;
+  /** Trades already older than the window on arrival. */
+  droppedTrades?: number;
+  /** Per-coin window totals when streaming several symbols. */
+  bySymbol?: Record<string, WindowTotals>;
+  /** The watched wallet's own fills in the same window and ribbon view. */
+  ownFlow?: WindowTotals;
+  /** Every configured lookback window, in the configured order. */
+  windows?: WindowStats[];
+  /** Smoothed buy share of the secondary ribbon's window, when drawn. */
+  secondaryBuyShare?: number;
 };
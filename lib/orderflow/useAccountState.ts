@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ClearinghouseState,
+  OpenOrder,
+} from "./hyperliquid-websocket";
+import { AccountFeed, createHyperliquidAccountFeed } from "./account";
+
+type UseAccountStateArgs = {
+  /** Wallet to watch; `null` watches nothing. */
+  address: string | null;
+  enabled?: boolean;
+  /** Defaults to both Hyperliquid account channels on the shared client. */
+  feed?: AccountFeed;
+};
+
+type AccountState = {
+  address: string | null;
+  state: ClearinghouseState | null;
+  openOrders: OpenOrder[] | null;
+  error: string | null;
+};
+
+const defaultFeed = createHyperliquidAccountFeed();
+const emptyAccount: AccountState = {
+  address: null,
+  state: null,
+  openOrders: null,
+  error: null,
+};
+
+/**
+ * Live clearinghouse state (positions, margin) and open orders for
+ * `address`. The two channels interleave, so the newer state by `time`
+ * wins. Everything resets when the address changes; an address the exchange
+ * does not know simply reports no positions.
+ */
+export function useAccountState({
+  address,
+  enabled = true,
+  feed = defaultFeed,
+}: UseAccountStateArgs) {
+  const [account, setAccount] = useState<AccountState>(emptyAccount);
+
+  useEffect(() => {
+    if (!enabled || !address) return;
+    const subscription = feed(address).subscribe((update) =>
+      setAccount((prev) => {
+        const current = prev.address === address ? prev : emptyAccount;
+        if (update.type === "error") {
+          return { ...current, address, error: update.message };
+        }
+        const newer =
+          update.state &&
+          (!current.state || update.state.time >= current.state.time);
+        return {
+          address,
+          state: newer ? update.state : current.state,
+          openOrders: update.openOrders ?? current.openOrders,
+          error: null,
+        };
+      })
+    );
+    return () => subscription.unsubscribe();
+  }, [address, enabled, feed]);
+
+  return address && account.address === address ? account : emptyAccount;
+}
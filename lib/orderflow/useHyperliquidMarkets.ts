@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { auditTime } from "rxjs";
+import {
+  getHyperliquidWebSocket,
+  HyperliquidMarket,
+  HyperliquidWebSocket,
+  MidsMap,
+} from "./hyperliquid-websocket";
+import { getHyperliquidInfoClient } from "./hyperliquid-info";
+
+type UseHyperliquidMarketsArgs = {
+  enabled?: boolean;
+  /**
+   * Market list loader; defaults to `meta` + `spotMeta` from the shared info
+   * client. Pass a stub (or a fixture) to run without the exchange.
+   */
+  loadMarkets?: () => Promise<HyperliquidMarket[]>;
+  /** Client used for the `allMids` feed; defaults to the shared singleton. */
+  client?: HyperliquidWebSocket;
+  /** Mid updates are coalesced to at most one render per interval. */
+  midsIntervalMs?: number;
+};
+
+const loadDefaultMarkets = () => getHyperliquidInfoClient().markets();
+
+/**
+ * Tradable coins plus live mid prices for the symbol picker. Markets are
+ * fetched once per loader; mids stream from `allMids` while enabled.
+ */
+export function useHyperliquidMarkets({
+  enabled = true,
+  loadMarkets = loadDefaultMarkets,
+  client,
+  midsIntervalMs = 1000,
+}: UseHyperliquidMarketsArgs = {}) {
+  const [markets, setMarkets] = useState<HyperliquidMarket[]>([]);
+  const [mids, setMids] = useState<MidsMap>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    loadMarkets()
+      .then((list) => {
+        if (cancelled) return;
+        setMarkets(list);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.warn("hyperliquid market metadata unavailable", err);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, loadMarkets]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const subscription = (client ?? getHyperliquidWebSocket())
+      .mids$()
+      .pipe(auditTime(midsIntervalMs))
+      .subscribe(setMids);
+    return () => subscription.unsubscribe();
+  }, [client, enabled, midsIntervalMs]);
+
+  return { markets, mids, error };
+}
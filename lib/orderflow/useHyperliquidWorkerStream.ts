@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { OrderEvent, WindowSummary, WindowTotals } from "./types";
+import { ReorderMetrics } from "./reorder-buffer";
+import { WorkerRequest, WorkerResponse } from "./worker-protocol";
+import { idleStreamHealth, StreamHealth } from "./market-data-source";
+
+type UseHyperliquidWorkerArgs = {
+  symbols?: readonly string[];
+  enabled?: boolean;
+  windowSeconds: number;
+  /** Further lookbacks the worker aggregates; reported in each batch. */
+  extraWindowsSeconds?: readonly number[];
+  backfill?: boolean;
+  onBatch?: (
+    orders: OrderEvent[],
+    totals: WindowTotals,
+    bySymbol: Record<string, WindowTotals>,
+    reorder: ReorderMetrics,
+    windows: WindowSummary[]
+  ) => void;
+};
+
+const noWindows: readonly number[] = [];
+
+/**
+ * Worker-backed variant of `useHyperliquidStream`: the socket, parsing,
+ * dedup and rolling aggregation live in `orderflow.worker.ts`, and the UI
+ * thread only receives batched orders plus window totals.
+ * `fallback` flips to true when workers are unavailable or the worker
+ * crashes, so callers can switch to the in-thread hook. `health` mirrors
+ * the worker socket's status; `lastTradeAt` moves with non-empty batches.
+ */
+export function useHyperliquidWorkerStream({
+  symbols = ["BTC"],
+  enabled = true,
+  windowSeconds,
+  extraWindowsSeconds = noWindows,
+  backfill = true,
+  onBatch,
+}: UseHyperliquidWorkerArgs) {
+  const workerRef = useRef<Worker | null>(null);
+  const onBatchRef = useRef<typeof onBatch | null>(null);
+  const windowMsRef = useRef(windowSeconds * 1000);
+  const extraKey = extraWindowsSeconds.join(",");
+  const extraWindowsMsRef = useRef<number[]>([]);
+  const [health, setHealth] = useState<StreamHealth>(idleStreamHealth);
+  const [fallback, setFallback] = useState(
+    () => typeof Worker === "undefined"
+  );
+  const symbolKey = symbols.map((s) => s.trim()).join(",");
+
+  useEffect(() => {
+    onBatchRef.current = onBatch;
+  }, [onBatch]);
+
+  const post = (request: WorkerRequest) => {
+    workerRef.current?.postMessage(request);
+  };
+
+  useEffect(() => {
+    if (!enabled || fallback) return;
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL("./orderflow.worker.ts", import.meta.url), {
+        type: "module",
+      });
+    } catch (err) {
+      console.warn("orderflow worker unavailable, using main thread", err);
+      // Defer so the state change happens outside the effect body.
+      queueMicrotask(() => setFallback(true));
+      return;
+    }
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "status") {
+        const { event: status } = message;
+        setHealth((prev) => ({
+          ...prev,
+          status: status.status,
+          error: status.error ?? null,
+          attempt: status.attempt ?? 0,
+          since: prev.status === status.status ? prev.since : Date.now(),
+        }));
+        return;
+      }
+      if (message.type === "batch") {
+        if (message.orders.length > 0) {
+          // At most one re-render a second; returning `prev` bails out.
+          const now = Date.now();
+          setHealth((prev) =>
+            prev.lastTradeAt !== null && now - prev.lastTradeAt < 1000
+              ? prev
+              : { ...prev, lastTradeAt: now }
+          );
+        }
+        onBatchRef.current?.(
+          message.orders,
+          message.totals,
+          message.bySymbol,
+          message.reorder,
+          message.windows
+        );
+      }
+    };
+    worker.onerror = (event) => {
+      console.warn("orderflow worker failed, using main thread", event.message);
+      worker.terminate();
+      workerRef.current = null;
+      setFallback(true);
+    };
+    worker.postMessage({
+      type: "start",
+      symbols: symbolKey ? symbolKey.split(",") : [],
+      windowMs: windowMsRef.current,
+      extraWindowsMs: extraWindowsMsRef.current,
+      backfill,
+    } satisfies WorkerRequest);
+
+    return () => {
+      worker.postMessage({ type: "stop" } satisfies WorkerRequest);
+      worker.terminate();
+      if (workerRef.current === worker) {
+        workerRef.current = null;
+      }
+    };
+  }, [backfill, enabled, fallback, symbolKey]);
+
+  useEffect(() => {
+    windowMsRef.current = windowSeconds * 1000;
+    workerRef.current?.postMessage({
+      type: "setWindow",
+      windowMs: windowMsRef.current,
+    } satisfies WorkerRequest);
+  }, [windowSeconds]);
+
+  useEffect(() => {
+    extraWindowsMsRef.current = extraKey
+      ? extraKey.split(",").map((seconds) => Number(seconds) * 1000)
+      : [];
+    workerRef.current?.postMessage({
+      type: "setExtraWindows",
+      windowsMs: extraWindowsMsRef.current,
+    } satisfies WorkerRequest);
+  }, [extraKey]);
+
+  return {
+    fallback,
+    health,
+    pauseStream: () => post({ type: "pause" }),
+    resumeStream: () => {
+      if (!enabled) return;
+      post({ type: "resume" });
+    },
+  };
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  BehaviorSubject,
+  EMPTY,
+  Subject,
+  auditTime,
+  distinctUntilChanged,
+  filter,
+  merge,
+  switchMap,
+} from "rxjs";
+import { OrderEvent } from "./types";
+import {
+  idleStreamHealth,
+  MarketDataSource,
+  StreamHealth,
+} from "./market-data-source";
+import { createRecentIdFilter } from "./hyperliquid-orders";
+
+type UseMarketDataArgs = {
+  /** `null` keeps the hook idle. */
+  source: MarketDataSource | null;
+  symbol?: string;
+  /** Several coins at once; wins over `symbol`. */
+  symbols?: readonly string[];
+  enabled?: boolean;
+  onOrderReceived?: (order: OrderEvent) => void;
+};
+
+/**
+ * Streams deduped OrderEvents from any `MarketDataSource`, merged across
+ * `symbols` (each order carries its coin in `symbol`).
+ * Pause/resume gates the source through a BehaviorSubject, the same way the
+ * synthetic stream does; pausing unsubscribes, so the source can release
+ * its connection. `health` follows `source.status$` plus the last trade
+ * time (updated at most once a second).
+ */
+export function useMarketDataStream({
+  source,
+  symbol = "BTC",
+  symbols,
+  enabled = true,
+  onOrderReceived,
+}: UseMarketDataArgs) {
+  // A string key keeps the effect stable across new array identities.
+  // Case is kept: Hyperliquid coins such as "kPEPE" are case-sensitive.
+  const symbolKey = Array.from(
+    new Set((symbols ?? [symbol]).map((s) => s.trim()))
+  )
+    .filter(Boolean)
+    .join(",");
+  const streamControl = useRef(new BehaviorSubject<boolean>(enabled));
+  const onOrderReceivedRef = useRef<typeof onOrderReceived | null>(null);
+  const [health, setHealth] = useState<StreamHealth>(idleStreamHealth);
+
+  useEffect(() => {
+    onOrderReceivedRef.current = onOrderReceived;
+  }, [onOrderReceived]);
+
+  useEffect(() => {
+    streamControl.current.next(enabled);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!source) return;
+    const subscription = source.status$.subscribe((event) =>
+      setHealth((prev) => ({
+        ...prev,
+        status: event.status,
+        error: event.error ?? null,
+        attempt: event.attempt ?? 0,
+        since: prev.status === event.status ? prev.since : Date.now(),
+      }))
+    );
+    return () => subscription.unsubscribe();
+  }, [source]);
+
+  useEffect(() => {
+    const coins = symbolKey ? symbolKey.split(",") : [];
+    const trades = new Subject<void>();
+    const tradeClock = trades
+      .pipe(auditTime(1000))
+      .subscribe(() =>
+        setHealth((prev) => ({ ...prev, lastTradeAt: Date.now() }))
+      );
+    const orders$ = source
+      ? merge(...coins.map((coin) => source.orders$(coin)))
+      : EMPTY;
+    const subscription = streamControl.current
+      .pipe(
+        // pause/resume are called on every render; only react to changes.
+        distinctUntilChanged(),
+        switchMap((streaming) => (streaming ? orders$ : EMPTY)),
+        filter(createRecentIdFilter())
+      )
+      .subscribe((order) => {
+        trades.next();
+        onOrderReceivedRef.current?.(order);
+      });
+
+    return () => {
+      subscription.unsubscribe();
+      tradeClock.unsubscribe();
+    };
+  }, [source, symbolKey]);
+
+  return {
+    health,
+    pauseStream: () => streamControl.current.next(false),
+    resumeStream: () => {
+      if (!enabled) return;
+      streamControl.current.next(true);
+    },
+  };
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+
+const storageKey = "orderflow.symbols";
+const listeners = new Set<() => void>();
+// Used when localStorage is unavailable (private mode, quota) so picks still
+// apply for the session.
+let memoryValue: string | null = null;
+
+const read = (): string | null => {
+  try {
+    return window.localStorage.getItem(storageKey) ?? memoryValue;
+  } catch {
+    return memoryValue;
+  }
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === storageKey) listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+const parseSymbols = (raw: string | null): string[] | null => {
+  if (!raw) return null;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return null;
+    const symbols = parsed.filter(
+      (s): s is string => typeof s === "string" && s.trim() !== ""
+    );
+    return symbols.length > 0 ? symbols : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Selected symbols persisted in localStorage (and synced across tabs). The
+ * server render and hydration use `defaults`; the stored pick applies right
+ * after, so markup never mismatches.
+ */
+export function useStoredSymbols(defaults: string[]) {
+  const raw = useSyncExternalStore(subscribe, read, () => null);
+  const symbols = useMemo(
+    () => parseSymbols(raw) ?? defaults,
+    [raw, defaults]
+  );
+
+  const setSymbols = (next: string[]) => {
+    memoryValue = JSON.stringify(next);
+    try {
+      window.localStorage.setItem(storageKey, memoryValue);
+    } catch {
+      // Not persisted; memoryValue still carries it for this session.
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  return [symbols, setSymbols] as const;
+}
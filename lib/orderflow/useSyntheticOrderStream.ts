@@ -5,54 +5,63 @@ import {
   BehaviorSubject,
   Subject,
   EMPTY,
-  timer,
+  Observable,
   startWith,
   switchMap,
   tap,
   mergeMap,
 } from "rxjs";
-import { OrderEvent, OrderSide } from "./types";
-
-const generateOrder = (): OrderEvent => {
-  const rand = Math.random();
-  let volume: number;
-  if (rand < 0.6) {
-    volume = Math.floor(Math.random() * 100) + 10; // 10-110
-  } else if (rand < 0.85) {
-    volume = Math.floor(Math.random() * 500) + 100; // 100-600
-  } else {
-    volume = Math.floor(Math.random() * 2000) + 500; // 500-2500
-  }
-
-  const side: OrderSide = Math.random() > 0.5 ? "buy" : "sell";
+import { OrderEvent } from "./types";
+import {
+  SyntheticOrderGenerator,
+  SyntheticScenario,
+  SyntheticScenarioId,
+  syntheticScenarios,
+} from "./synthetic-scenarios";
+import { Clock, clockTimer, realtimeClock } from "./clock";
 
-  return {
-    id: `order-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-    side,
-    volume,
-    timestamp: Date.now(),
-  };
-};
+export const DEFAULT_SYNTHETIC_SEED = 42;
 
 type UseOrderStreamArgs = {
   onOrderReceived?: (order: OrderEvent) => void;
   enabled?: boolean;
+  /** Preset id or a custom scenario (keep the object stable across renders). */
+  scenario?: SyntheticScenarioId | SyntheticScenario;
+  /** Same seed + scenario replays the same sequence of orders. */
+  seed?: number;
+  /** Schedules arrivals and stamps orders; a manual clock makes it steppable. */
+  clock?: Clock;
 };
 
 /**
  * Synthetic order stream modeled after the provided helper in the brief.
- * Emits randomized order events at weighted intervals. Supports pause/resume.
+ * Emits seeded scenario orders at the scenario's arrival rate. Supports
+ * pause/resume; changing the scenario or seed restarts the sequence.
  */
 export const useOrderStream = ({
   onOrderReceived,
   enabled = true,
+  scenario = "balanced",
+  seed = DEFAULT_SYNTHETIC_SEED,
+  clock = realtimeClock,
 }: UseOrderStreamArgs) => {
   const streamControl = useRef(new BehaviorSubject<boolean>(enabled));
   const orderEvents = useRef(new Subject<OrderEvent>());
   const onOrderReceivedRef = useRef<typeof onOrderReceived | null>(null);
 
+  // Kept out of the stream effect: callers pass a fresh callback on every
+  // render, and rebuilding the generator would restart the sequence.
   useEffect(() => {
     onOrderReceivedRef.current = onOrderReceived ?? null;
+  }, [onOrderReceived]);
+
+  useEffect(() => {
+    // Survives pause/resume and re-renders so the stream continues the
+    // sequence; only a new scenario, seed or clock starts it over.
+    const generator = new SyntheticOrderGenerator(
+      typeof scenario === "string" ? syntheticScenarios[scenario] : scenario,
+      seed
+    );
 
     const subscription = streamControl.current
       .pipe(
@@ -60,10 +69,10 @@ export const useOrderStream = ({
         switchMap((streaming) => {
           if (!streaming) return EMPTY;
 
-          const scheduleNext = (): ReturnType<typeof timer> =>
-            timer(50 + Math.pow(1 - Math.random(), 3) * 2000).pipe(
+          const scheduleNext = (): Observable<void> =>
+            clockTimer(clock, generator.nextDelay()).pipe(
               tap(() => {
-                const order = generateOrder();
+                const order = generator.nextOrder(clock.now());
                 onOrderReceivedRef.current?.(order);
                 orderEvents.current.next(order);
               }),
@@ -76,7 +85,7 @@ export const useOrderStream = ({
       .subscribe();
 
     return () => subscription.unsubscribe();
-  }, [onOrderReceived]);
+  }, [clock, scenario, seed]);
 
   return {
     pauseStream: () => streamControl.current.next(false),
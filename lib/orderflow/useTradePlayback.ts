@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import {
+  BehaviorSubject,
+  EMPTY,
+  Observable,
+  asapScheduler,
+  distinctUntilChanged,
+  filter,
+  subscribeOn,
+  switchMap,
+} from "rxjs";
+import { OrderEvent } from "./types";
+import { createRecentIdFilter } from "./hyperliquid-orders";
+import { Clock, ScaledClock } from "./clock";
+
+/**
+ * Emits `orders` (sorted by timestamp) as `clock` reaches each one,
+ * starting at `cursor.index`. The cursor survives unsubscribe, so a paused
+ * playback resumes where it stopped.
+ */
+function playback$(
+  orders: readonly OrderEvent[],
+  clock: Clock,
+  cursor: { index: number }
+): Observable<OrderEvent> {
+  return new Observable<OrderEvent>((subscriber) => {
+    let cancel: (() => void) | null = null;
+    const step = () => {
+      const now = clock.now();
+      while (
+        cursor.index < orders.length &&
+        orders[cursor.index].timestamp <= now
+      ) {
+        subscriber.next({ ...orders[cursor.index], receivedAt: Date.now() });
+        cursor.index += 1;
+      }
+      const next = orders[cursor.index];
+      if (!next) {
+        subscriber.complete();
+        return;
+      }
+      cancel = clock.setTimeout(step, next.timestamp - now);
+    };
+    step();
+    return () => cancel?.();
+  });
+}
+
+type UseTradePlaybackArgs = {
+  /** Imported trades, sorted by timestamp (as `parseTradeFile` returns them). */
+  orders: readonly OrderEvent[];
+  /** Trade-time ms per wall-clock ms. */
+  speed?: number;
+  enabled?: boolean;
+  onOrderReceived?: (order: OrderEvent) => void;
+};
+
+/**
+ * Plays imported trades back with their original spacing divided by
+ * `speed`. Pausing freezes the playback clock too, so the window does not
+ * drain while paused; the clock stops at the last trade so the final
+ * window stays on screen. A new `orders` array restarts from the top.
+ */
+export function useTradePlayback({
+  orders,
+  speed = 1,
+  enabled = true,
+  onOrderReceived,
+}: UseTradePlaybackArgs) {
+  const clock = useMemo(
+    () =>
+      orders.length > 0
+        ? new ScaledClock(
+            orders[0].timestamp,
+            1,
+            orders[orders.length - 1].timestamp
+          )
+        : null,
+    [orders]
+  );
+  const streamControl = useRef(new BehaviorSubject<boolean>(enabled));
+  const onOrderReceivedRef = useRef<typeof onOrderReceived | null>(null);
+
+  useEffect(() => {
+    onOrderReceivedRef.current = onOrderReceived;
+  }, [onOrderReceived]);
+
+  useEffect(() => {
+    streamControl.current.next(enabled);
+  }, [enabled]);
+
+  useEffect(() => {
+    clock?.setSpeed(speed);
+  }, [clock, speed]);
+
+  useEffect(() => {
+    if (!clock) return;
+    const cursor = { index: 0 };
+    const subscription = streamControl.current
+      .pipe(
+        distinctUntilChanged(),
+        switchMap((streaming) => {
+          if (!streaming) {
+            clock.pause();
+            return EMPTY;
+          }
+          clock.start();
+          // The first trades are due at once. Waiting a tick lets the
+          // consumer's effects switch over to `clock` (fresh window and
+          // reorder buffer) before they arrive, instead of judging them
+          // against the clock it had before.
+          return playback$(orders, clock, cursor).pipe(
+            subscribeOn(asapScheduler)
+          );
+        }),
+        filter(createRecentIdFilter())
+      )
+      .subscribe((order) => onOrderReceivedRef.current?.(order));
+
+    return () => {
+      subscription.unsubscribe();
+      clock.pause();
+    };
+  }, [clock, orders]);
+
+  return {
+    clock,
+    pauseStream: () => streamControl.current.next(false),
+    resumeStream: () => {
+      if (!enabled) return;
+      streamControl.current.next(true);
+    },
+  };
+}
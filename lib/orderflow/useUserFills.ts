@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { OrderEvent } from "./types";
+import {
+  resolveUserFillsFeed,
+  UserFillsFeed,
+  userFillToOrderEvent,
+} from "./user-fills";
+
+type UseUserFillsArgs = {
+  /** Wallet to watch; `null` watches nothing. */
+  address: string | null;
+  /** Only fills on these coins are returned. */
+  symbols: readonly string[];
+  enabled?: boolean;
+  /** Defaults to `resolveUserFillsFeed()` (Hyperliquid, or the mock). */
+  feed?: UserFillsFeed;
+  /** Most recent fills kept. */
+  limit?: number;
+};
+
+type FillsState = { address: string | null; fills: OrderEvent[] };
+
+const defaultFeed = resolveUserFillsFeed();
+
+/**
+ * Recent fills for `address` on the viewed coins, newest first. A snapshot
+ * replaces the list; streamed fills are merged by id. Fills stay listed
+ * while paused and clear when the address changes.
+ */
+export function useUserFills({
+  address,
+  symbols,
+  enabled = true,
+  feed = defaultFeed,
+  limit = 50,
+}: UseUserFillsArgs) {
+  const [state, setState] = useState<FillsState>({
+    address: null,
+    fills: [],
+  });
+  const [error, setError] = useState<{ address: string; message: string } | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!enabled || !address) return;
+    const subscription = feed(address, symbols).subscribe({
+      next: (update) => {
+        const receivedAt = Date.now();
+        const incoming = update.fills.map((fill) =>
+          userFillToOrderEvent(fill, receivedAt)
+        );
+        setState((prev) => {
+          const kept =
+            update.isSnapshot || prev.address !== address ? [] : prev.fills;
+          const seen = new Set(incoming.map((fill) => fill.id));
+          const merged = [
+            ...incoming,
+            ...kept.filter((fill) => !seen.has(fill.id)),
+          ];
+          merged.sort((a, b) => b.timestamp - a.timestamp);
+          return { address, fills: merged.slice(0, limit) };
+        });
+        setError(null);
+      },
+      error: (err: unknown) => {
+        console.warn("user fills feed failed", err);
+        setError({
+          address,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      },
+    });
+    return () => subscription.unsubscribe();
+  }, [address, enabled, feed, limit, symbols]);
+
+  const fills = useMemo(() => {
+    if (!address || state.address !== address) return [];
+    const viewed = new Set(symbols);
+    return state.fills.filter(
+      (fill) => fill.symbol !== undefined && viewed.has(fill.symbol)
+    );
+  }, [address, state, symbols]);
+
+  return {
+    fills,
+    error: error && error.address === address ? error.message : null,
+  };
+}
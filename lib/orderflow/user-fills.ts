@@ -0,0 +1,134 @@
+import { Observable } from "rxjs";
+import { OrderEvent } from "./types";
+import {
+  getHyperliquidWebSocket,
+  UserFill,
+  UserFillsUpdate,
+} from "./hyperliquid-websocket";
+
+// A watched wallet's own fills, mapped onto the same OrderEvent shape as the
+// public tape so the canvas can highlight them. Read-only: only the
+// `userFills` channel is used, nothing is signed.
+
+/**
+ * Fills for one address. `coins` are the coins on screen; the Hyperliquid
+ * feed ignores it (the channel covers every coin) but a mock can use it.
+ */
+export type UserFillsFeed = (
+  address: string,
+  coins: readonly string[]
+) => Observable<UserFillsUpdate>;
+
+export const isWalletAddress = (value: string) =>
+  /^0x[0-9a-fA-F]{40}$/.test(value.trim());
+
+const FILL_ID_PREFIX = "fill-";
+
+/** Id of the public trade a fill event belongs to (its `tid`). */
+export const fillTradeId = (fillId: string) =>
+  fillId.startsWith(FILL_ID_PREFIX)
+    ? fillId.slice(FILL_ID_PREFIX.length)
+    : fillId;
+
+/** Ids are prefixed so a fill never collides with its public trade (`tid`). */
+export const userFillToOrderEvent = (
+  fill: UserFill,
+  receivedAt = Date.now()
+): OrderEvent => ({
+  id: `${FILL_ID_PREFIX}${fill.tid}`,
+  side: fill.side === "B" ? "buy" : "sell",
+  volume: fill.px * fill.sz,
+  timestamp: fill.time,
+  symbol: fill.coin,
+  price: fill.px,
+  size: fill.sz,
+  source: "live",
+  receivedAt,
+});
+
+export const hyperliquidUserFillsFeed: UserFillsFeed = (address) =>
+  getHyperliquidWebSocket().userFills$(address);
+
+type MockUserFillsOptions = {
+  /** Average gap between fills; each gap is drawn from 0.5×–1.5× of it. */
+  intervalMs?: number;
+  /** Historical fills in the opening snapshot. */
+  snapshotSize?: number;
+  /** Starting price per coin; unlisted coins start at 100. */
+  prices?: Record<string, number>;
+};
+
+/**
+ * Offline stand-in for `userFills`: a snapshot of older fills, then random
+ * fills on the viewed coins. Selected with
+ * `NEXT_PUBLIC_HYPERLIQUID_USER_FILLS=mock`.
+ */
+export function createMockUserFillsFeed({
+  intervalMs = 4000,
+  snapshotSize = 5,
+  prices = {},
+}: MockUserFillsOptions = {}): UserFillsFeed {
+  return (address, coins) =>
+    new Observable<UserFillsUpdate>((subscriber) => {
+      const pool = coins.length > 0 ? coins : ["BTC"];
+      const walk = new Map<string, number>();
+      let tid = Date.now();
+      const makeFill = (time: number): UserFill => {
+        const coin = pool[Math.floor(Math.random() * pool.length)];
+        const px =
+          (walk.get(coin) ?? prices[coin] ?? 100) *
+          (1 + (Math.random() - 0.5) * 0.002);
+        walk.set(coin, px);
+        const side = Math.random() < 0.5 ? "B" : "S";
+        tid += 1;
+        return {
+          coin,
+          side,
+          px,
+          sz: (50 + Math.random() * 2000) / px,
+          time,
+          dir: side === "B" ? "Open Long" : "Open Short",
+          startPosition: 0,
+          closedPnl: 0,
+          fee: 0,
+          crossed: Math.random() < 0.7,
+          oid: tid,
+          tid,
+          hash: `0x${tid.toString(16)}`,
+        };
+      };
+
+      const now = Date.now();
+      subscriber.next({
+        user: address,
+        isSnapshot: true,
+        fills: Array.from({ length: snapshotSize }, (_, i) =>
+          makeFill(now - (snapshotSize - i) * 60_000)
+        ),
+      });
+
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const schedule = () => {
+        timer = setTimeout(() => {
+          subscriber.next({
+            user: address,
+            isSnapshot: false,
+            fills: [makeFill(Date.now())],
+          });
+          schedule();
+        }, intervalMs * (0.5 + Math.random()));
+      };
+      schedule();
+      return () => {
+        if (timer) clearTimeout(timer);
+      };
+    });
+}
+
+/** Reads `NEXT_PUBLIC_HYPERLIQUID_USER_FILLS`: "mock" = offline fills. */
+export function resolveUserFillsFeed(): UserFillsFeed {
+  return typeof process !== "undefined" &&
+    process.env.NEXT_PUBLIC_HYPERLIQUID_USER_FILLS === "mock"
+    ? createMockUserFillsFeed()
+    : hyperliquidUserFillsFeed;
+}
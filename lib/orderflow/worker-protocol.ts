@@ -0,0 +1,38 @@
+import { OrderEvent, WindowSummary, WindowTotals } from "./types";
+import { ReorderMetrics } from "./reorder-buffer";
+import { HyperliquidNetwork } from "./hyperliquid-websocket";
+import { MarketDataStatusEvent } from "./market-data-source";
+
+// Messages exchanged between the UI thread and `orderflow.worker.ts`.
+
+export type WorkerRequest =
+  | {
+      type: "start";
+      symbols: string[];
+      windowMs: number;
+      /** Further lookbacks aggregated alongside `windowMs`. */
+      extraWindowsMs?: number[];
+      backfill: boolean;
+      network?: HyperliquidNetwork;
+    }
+  | { type: "setWindow"; windowMs: number }
+  | { type: "setExtraWindows"; windowsMs: number[] }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "stop" };
+
+export type WorkerResponse =
+  | {
+      type: "batch";
+      /** Orders received since the previous batch, oldest first. */
+      orders: OrderEvent[];
+      /** Rolling-window totals after applying `orders` and pruning. */
+      totals: WindowTotals;
+      /** Same totals split by coin. */
+      bySymbol: Record<string, WindowTotals>;
+      /** Totals for each extra window, in the requested order. */
+      windows: WindowSummary[];
+      reorder: ReorderMetrics;
+    }
+  /** Every status transition of the worker's socket. */
+  | { type: "status"; event: MarketDataStatusEvent };